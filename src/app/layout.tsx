@@ -14,7 +14,7 @@ const geistMono = Geist_Mono({
 
 export const metadata: Metadata = {
   title: "SmartCollage — 大规模图片拼图",
-  description: "中心主图 + 环绕网格布局，导出正方形高清拼图（适合部署到 Vercel）",
+  description: "中心主图 + 环绕网格布局，按多种画幅比例导出高清拼图（适合部署到 Vercel）",
 };
 
 export default function RootLayout({
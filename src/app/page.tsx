@@ -1,20 +1,114 @@
 "use client";
 
-import { useCallback, useEffect, useMemo, useRef, useState, type ChangeEvent, type DragEvent } from "react";
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ChangeEvent,
+  type DragEvent,
+  type PointerEvent,
+} from "react";
 import {
   canvasToBlob,
-  renderCollageToCanvas,
+  createShuffleSeed,
+  drawCollagePlaceholder,
+  MAX_WEIGHT,
+  measureImage,
+  placementAt,
+  planCollage,
+  remapArrangement,
+  type CollageColorOrder,
+  type CollageCropAnchor,
   type CollageImageItem,
+  type CollageLayoutMode,
+  type CollageMainAnchor,
+  type CollageMainFit,
+  type CollageMainPlacement,
+  type CollagePlan,
   type CollageProgress,
+  type CollageRegionName,
+  type FocalPoint,
+  type Rect,
+  type RenderCollageOptions,
 } from "@/lib/collage";
+import { DEFAULT_BITMAP_CACHE_BUDGET } from "@/lib/bitmap-cache";
+import { clearRenderCaches, renderCollagePreview, renderCollageToBlob } from "@/lib/render";
+import { MAX_TILED_EXPORT_SIZE, SINGLE_CANVAS_LIMIT } from "@/lib/tiled-export";
+import { computePrintLayout, scalePrintOptions, withDpiMetadata, type PrintSettings } from "@/lib/print";
+import { POINTS_PER_INCH, toPoints, type PdfPageUnit } from "@/lib/pdf";
+import {
+  EXPORT_FORMATS,
+  estimateExportSize,
+  exportFormatInfo,
+  probeExportFormats,
+  type ExportFormat,
+} from "@/lib/formats";
+import {
+  buildCollageManifest,
+  matchManifestImages,
+  parseCollageManifest,
+  planMatchesManifest,
+  type CollageManifest,
+} from "@/lib/manifest";
+import {
+  deleteProject,
+  getStorageUsage,
+  listProjects,
+  loadProject,
+  requestPersistentStorage,
+  saveProject,
+  supportsProjects,
+  type ProjectSummary,
+  type StorageUsage,
+} from "@/lib/projects";
+import { PROJECT_FILE_EXTENSION, buildProjectFile, readProjectFile } from "@/lib/project-file";
+import { imageMask, shapeMask, textMask, type CollageMask, type MaskShape } from "@/lib/mask";
+import { MAX_MOSAIC_COLUMNS, MIN_MOSAIC_COLUMNS } from "@/lib/mosaic";
+import { extractImageColors } from "@/lib/palette";
+import { formatCaptureDate, parseCaptureDate, readImageMetadata } from "@/lib/exif";
+import {
+  computeFingerprint,
+  findDuplicateGroups,
+  pickDuplicateKeeper,
+  type DuplicateCandidate,
+  type DuplicateKeep,
+  type ImageFingerprint,
+} from "@/lib/duplicates";
+import { FocalPointEditor } from "@/components/focal-point-editor";
+
+// `fingerprint` is only used to spot duplicates on the page; it never reaches the renderer.
+type UiImageItem = CollageImageItem & { url: string; fingerprint?: ImageFingerprint };
 
-type UiImageItem = CollageImageItem & { url: string };
+// Groups listed in the duplicates panel; the buttons still act on every group.
+const MAX_LISTED_DUPLICATE_GROUPS = 12;
+
+function duplicateCandidate(item: UiImageItem): DuplicateCandidate {
+  return {
+    id: item.id,
+    fingerprint: item.fingerprint,
+    width: item.width,
+    height: item.height,
+    bytes: item.file.size,
+  };
+}
 
 function makeId(): string {
   if (typeof crypto !== "undefined" && "randomUUID" in crypto) return crypto.randomUUID();
   return `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`;
 }
 
+// Tooltip for a thumbnail: filename, then capture date and camera when known.
+function imageTitle(item: CollageImageItem): string {
+  const { takenAt, make, model } = item.metadata ?? {};
+  const camera = [make, model && make && model.startsWith(make) ? model.slice(make.length).trim() : model]
+    .filter(Boolean)
+    .join(" ");
+  const details = [takenAt != null ? formatCaptureDate(takenAt) : "", camera].filter(Boolean).join(" · ");
+  return details ? `${item.file.name}\n${details}` : item.file.name;
+}
+
 function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value));
 }
@@ -43,6 +137,221 @@ function safeFilenamePart(input: string): string {
   return input.replaceAll(/[^a-zA-Z0-9._-]+/g, "-").replaceAll(/-+/g, "-").slice(0, 80);
 }
 
+type AspectPreset = { id: string; label: string; width: number; height: number };
+
+const ASPECT_PRESETS: AspectPreset[] = [
+  { id: "1:1", label: "1:1 正方形", width: 1, height: 1 },
+  { id: "16:9", label: "16:9 横幅", width: 16, height: 9 },
+  { id: "9:16", label: "9:16 竖屏", width: 9, height: 16 },
+  { id: "4:5", label: "4:5 Instagram 竖图", width: 4, height: 5 },
+  { id: "3:2", label: "3:2 照片（横）", width: 3, height: 2 },
+  { id: "2:3", label: "2:3 照片（竖）", width: 2, height: 3 },
+  { id: "a-landscape", label: "A 系列纸张（横）", width: Math.SQRT2, height: 1 },
+  { id: "a-portrait", label: "A 系列纸张（竖）", width: 1, height: Math.SQRT2 },
+];
+
+function closestAspectPreset(width: number, height: number): AspectPreset {
+  const ratio = Math.log(width / height);
+  let best = ASPECT_PRESETS[0];
+  for (const preset of ASPECT_PRESETS) {
+    const diff = Math.abs(Math.log(preset.width / preset.height) - ratio);
+    if (diff < Math.abs(Math.log(best.width / best.height) - ratio)) best = preset;
+  }
+  return best;
+}
+
+// `longSide` is the size of the longer edge; the shorter edge follows the preset ratio.
+function canvasDimensions(
+  longSide: number,
+  preset: { width: number; height: number },
+): { width: number; height: number } {
+  const scale = longSide / Math.max(preset.width, preset.height);
+  return {
+    width: Math.max(1, Math.round(preset.width * scale)),
+    height: Math.max(1, Math.round(preset.height * scale)),
+  };
+}
+
+const DEFAULT_QUALITIES = Object.fromEntries(
+  EXPORT_FORMATS.filter((f) => f.defaultQuality != null).map((f) => [f.type, f.defaultQuality]),
+) as Partial<Record<ExportFormat, number>>;
+
+// Longest side of the thumbnails kept for the instant placeholder pass.
+const THUMBNAIL_SIDE = 160;
+const AUTO_PREVIEW_DELAY_MS = 350;
+const SIZE_ESTIMATE_DELAY_MS = 400;
+
+const ARRANGEMENT_STORAGE_KEY = "smartcollage:arrangement";
+
+type StoredArrangement = { seed: number; locked: boolean };
+
+function loadArrangement(): StoredArrangement | null {
+  try {
+    const raw = localStorage.getItem(ARRANGEMENT_STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<StoredArrangement>;
+    if (typeof parsed.seed !== "number" || !Number.isFinite(parsed.seed)) return null;
+    return { seed: parsed.seed >>> 0, locked: parsed.locked === true };
+  } catch {
+    return null;
+  }
+}
+
+function saveArrangement(value: StoredArrangement): void {
+  try {
+    localStorage.setItem(ARRANGEMENT_STORAGE_KEY, JSON.stringify(value));
+  } catch {
+    // Storage may be unavailable (private mode / quota); the seed simply won't survive reloads.
+  }
+}
+
+const PROJECT_STORAGE_KEY = "smartcollage:project";
+const PROJECT_SAVE_DELAY_MS = 1000;
+
+/** Everything a saved project restores besides its photos; app-wide preferences stay out. */
+type ProjectSettings = {
+  useMain: boolean;
+  mainRatio: number;
+  gapPxAtExport: number;
+  background: string;
+  shuffleOthers: boolean;
+  assignByAspect: boolean;
+  colorOrder: CollageColorOrder | "none";
+  timeOrder: boolean;
+  dateCaptions: boolean;
+  layoutMode: CollageLayoutMode;
+  shuffleSeed: number;
+  lockArrangement: boolean;
+  mainFit: CollageMainFit;
+  mainPlacement: CollageMainPlacement;
+  mainAnchor: CollageMainAnchor;
+  cropAnchor: CollageCropAnchor;
+  aspectId: string;
+  previewSize: number;
+  exportSize: number;
+  exportFormat: ExportFormat;
+  qualities: Partial<Record<ExportFormat, number>>;
+  pdfPageWidth: number;
+  pdfPageHeight: number;
+  pdfUnit: PdfPageUnit;
+  pdfContactSheet: boolean;
+  printMode: boolean;
+  printWidthMm: number;
+  printHeightMm: number;
+  printDpi: number;
+  bleedMm: number;
+  cropMarks: boolean;
+  secondMainId: string | null;
+  order: string[] | null;
+  pins: Record<string, CollageRegionName>;
+  maskSource: MaskSource;
+  maskText: string;
+  maskFont: string;
+  maskBold: boolean;
+  maskImage: CollageMask | null;
+  transparentBackground: boolean;
+  mosaicEnabled: boolean;
+  mosaicColumns: number;
+  mosaicMaxRepeats: number;
+  mosaicTint: number;
+};
+
+// One setter per setting, so a setting that is saved but never restored fails to compile.
+type ProjectSettingSetters = { [K in keyof ProjectSettings]: (value: ProjectSettings[K]) => void };
+
+function loadLastProjectId(): string | null {
+  try {
+    return localStorage.getItem(PROJECT_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function saveLastProjectId(id: string): void {
+  try {
+    localStorage.setItem(PROJECT_STORAGE_KEY, id);
+  } catch {
+    // Without storage the app just starts a fresh project next time.
+  }
+}
+
+function defaultProjectName(): string {
+  const stamp = new Date().toLocaleString("zh-CN", {
+    month: "numeric",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  return `拼图 ${stamp}`;
+}
+
+// Longest side of the preview image stored in project files.
+const PROJECT_PREVIEW_SIDE = 512;
+
+async function projectPreview(source: HTMLCanvasElement): Promise<Blob> {
+  const scale = Math.min(1, PROJECT_PREVIEW_SIDE / Math.max(source.width, source.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvasToBlob(canvas, "image/jpeg", 0.85);
+}
+
+const REGION_LABELS: Record<CollageRegionName, string> = { top: "上", right: "右", bottom: "下", left: "左" };
+const PIN_CYCLE: (CollageRegionName | undefined)[] = [undefined, "top", "right", "bottom", "left"];
+
+const COLOR_ORDERS: { id: CollageColorOrder | "none"; label: string }[] = [
+  { id: "none", label: "不按颜色" },
+  { id: "hue", label: "色相渐变" },
+  { id: "palette", label: "贴近主图配色" },
+];
+
+const MAIN_PLACEMENTS: { id: CollageMainPlacement; label: string }[] = [
+  { id: "center", label: "居中" },
+  { id: "thirds", label: "三分法" },
+  { id: "golden", label: "黄金分割" },
+  { id: "flush", label: "贴边 / 贴角" },
+  { id: "side", label: "占满一侧" },
+];
+
+// `side` marks the anchors the "side" placement accepts.
+const MAIN_ANCHORS: { id: CollageMainAnchor; label: string; side?: boolean }[] = [
+  { id: "top-left", label: "左上" },
+  { id: "top", label: "上", side: true },
+  { id: "top-right", label: "右上" },
+  { id: "right", label: "右", side: true },
+  { id: "bottom-right", label: "右下" },
+  { id: "bottom", label: "下", side: true },
+  { id: "bottom-left", label: "左下" },
+  { id: "left", label: "左", side: true },
+];
+
+// Where the collage's shape mask comes from; "none" keeps the plain rectangle.
+type MaskSource = "none" | MaskShape | "text" | "image";
+
+const MASK_SOURCES: { id: MaskSource; label: string }[] = [
+  { id: "none", label: "矩形（不使用）" },
+  { id: "heart", label: "心形" },
+  { id: "circle", label: "圆形" },
+  { id: "star", label: "星形" },
+  { id: "hexagon", label: "六边形" },
+  { id: "text", label: "文字" },
+  { id: "image", label: "自定义剪影" },
+];
+
+const MASK_FONTS: { id: string; label: string }[] = [
+  { id: "sans-serif", label: "无衬线" },
+  { id: "serif", label: "衬线" },
+  { id: "cursive", label: "手写" },
+  { id: "monospace", label: "等宽" },
+];
+
+function formatSeed(seed: number): string {
+  return (seed >>> 0).toString(16).padStart(8, "0");
+}
+
 async function nextFrame(): Promise<void> {
   await new Promise((resolve) => requestAnimationFrame(resolve));
 }
@@ -101,31 +410,159 @@ async function createDemoFiles(
 export default function Home() {
   const [images, setImages] = useState<UiImageItem[]>([]);
   const [mainId, setMainId] = useState<string | null>(null);
+  const [secondMainId, setSecondMainId] = useState<string | null>(null);
   const [useMain, setUseMain] = useState(true);
 
   const [mainRatio, setMainRatio] = useState(0.48);
   const [gapPxAtExport, setGapPxAtExport] = useState(0);
   const [background, setBackground] = useState("#ffffff");
   const [shuffleOthers, setShuffleOthers] = useState(true);
+  const [assignByAspect, setAssignByAspect] = useState(true);
+  const [colorOrder, setColorOrder] = useState<CollageColorOrder | "none">("none");
+  const [timeOrder, setTimeOrder] = useState(false);
+  const [dateCaptions, setDateCaptions] = useState(false);
+  // Thumbnail grid filter ("YYYY-MM-DD" from the date inputs; empty = open-ended).
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [layoutMode, setLayoutMode] = useState<CollageLayoutMode>("grid");
+  const [shuffleSeed, setShuffleSeed] = useState(0);
+  const [lockArrangement, setLockArrangement] = useState(false);
+  const [autoPreview, setAutoPreview] = useState(false);
+  const [arrangementLoaded, setArrangementLoaded] = useState(false);
 
+  const [mainFit, setMainFit] = useState<CollageMainFit>("canvas");
+  const [mainPlacement, setMainPlacement] = useState<CollageMainPlacement>("center");
+  const [mainAnchor, setMainAnchor] = useState<CollageMainAnchor>("top-left");
+  const [cropAnchor, setCropAnchor] = useState<CollageCropAnchor>("center");
+
+  const [aspectId, setAspectId] = useState(ASPECT_PRESETS[0].id);
   const [previewSize, setPreviewSize] = useState(1024);
+  const [cacheBudgetMb, setCacheBudgetMb] = useState(DEFAULT_BITMAP_CACHE_BUDGET / (1024 * 1024));
   const [exportSize, setExportSize] = useState(4096);
-  const [exportFormat, setExportFormat] = useState<"image/png" | "image/jpeg">("image/png");
-  const [jpegQuality, setJpegQuality] = useState(0.92);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("image/png");
+  const [qualities, setQualities] = useState(DEFAULT_QUALITIES);
+  // null until probed: formats that need probing stay disabled until then.
+  const [encodableFormats, setEncodableFormats] = useState<Set<ExportFormat> | null>(null);
+  const [previewVersion, setPreviewVersion] = useState(0);
+  const [estimatedBytes, setEstimatedBytes] = useState<number | null>(null);
+  const [pdfPageWidth, setPdfPageWidth] = useState(210);
+  const [pdfPageHeight, setPdfPageHeight] = useState(297);
+  const [pdfUnit, setPdfUnit] = useState<PdfPageUnit>("mm");
+  const [pdfContactSheet, setPdfContactSheet] = useState(false);
+  const [printMode, setPrintMode] = useState(false);
+  const [printWidthMm, setPrintWidthMm] = useState(300);
+  const [printHeightMm, setPrintHeightMm] = useState(300);
+  const [printDpi, setPrintDpi] = useState(300);
+  const [bleedMm, setBleedMm] = useState(3);
+  const [cropMarks, setCropMarks] = useState(true);
+  const [maskSource, setMaskSource] = useState<MaskSource>("none");
+  const [maskText, setMaskText] = useState("LOVE");
+  const [maskFont, setMaskFont] = useState(MASK_FONTS[0].id);
+  const [maskBold, setMaskBold] = useState(true);
+  // Rasterized upload; the file itself isn't kept.
+  const [maskImage, setMaskImage] = useState<CollageMask | null>(null);
+  const [transparentBackground, setTransparentBackground] = useState(false);
+  const [mosaicEnabled, setMosaicEnabled] = useState(false);
+  const [mosaicColumns, setMosaicColumns] = useState(40);
+  const [mosaicMaxRepeats, setMosaicMaxRepeats] = useState(3);
+  const [mosaicTint, setMosaicTint] = useState(0.25);
+  // Manual arrangement from dragging tiles on the preview; `null` means automatic.
+  const [order, setOrder] = useState<string[] | null>(null);
+  const [pins, setPins] = useState<Record<string, CollageRegionName>>({});
+  // Tile being dragged on the preview, and the tile under the pointer (rects in preview pixels).
+  const [drag, setDrag] = useState<{
+    fromId: string;
+    from: Rect;
+    over: Rect | null;
+    planWidth: number;
+    planHeight: number;
+  } | null>(null);
+  // `null` until saved projects have been listed (or for good, if IndexedDB is unavailable).
+  const [projects, setProjects] = useState<ProjectSummary[] | null>(null);
+  const [project, setProject] = useState<{ id: string; createdAt: number } | null>(null);
+  const [projectName, setProjectName] = useState("");
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+
+  const [editingId, setEditingId] = useState<string | null>(null);
 
   const [busy, setBusy] = useState(false);
   const [progress, setProgress] = useState<CollageProgress | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const manifestInputRef = useRef<HTMLInputElement | null>(null);
+  const maskInputRef = useRef<HTMLInputElement | null>(null);
+  const projectFileInputRef = useRef<HTMLInputElement | null>(null);
+  const previewPlanRef = useRef<CollagePlan | null>(null);
+  const rearrangedRef = useRef(false);
   const abortRef = useRef<AbortController | null>(null);
   const imagesRef = useRef<UiImageItem[]>([]);
+  const thumbnailsRef = useRef(new Map<string, ImageBitmap>());
 
   const totalBytes = useMemo(() => images.reduce((sum, i) => sum + i.file.size, 0), [images]);
+  const aspect = useMemo(
+    () => ASPECT_PRESETS.find((p) => p.id === aspectId) ?? ASPECT_PRESETS[0],
+    [aspectId],
+  );
+  // Print mode derives the pixel size from the physical size; the layout covers the trim area and
+  // the file adds bleed and crop marks around it.
+  const printSettings = useMemo<PrintSettings | null>(
+    () =>
+      printMode ? { widthMm: printWidthMm, heightMm: printHeightMm, dpi: printDpi, bleedMm, cropMarks } : null,
+    [bleedMm, cropMarks, printDpi, printHeightMm, printMode, printWidthMm],
+  );
+  const printLayout = useMemo(() => (printSettings ? computePrintLayout(printSettings) : null), [printSettings]);
+  const previewDims = useMemo(
+    () => canvasDimensions(previewSize, printMode ? { width: printWidthMm, height: printHeightMm } : aspect),
+    [aspect, previewSize, printHeightMm, printMode, printWidthMm],
+  );
+  const exportDims = useMemo(
+    () =>
+      printLayout
+        ? { width: printLayout.trimWidth, height: printLayout.trimHeight }
+        : canvasDimensions(exportSize, aspect),
+    [aspect, exportSize, printLayout],
+  );
+  const exportLongSide = Math.max(exportDims.width, exportDims.height);
+  const fileDims = useMemo(
+    () => (printLayout ? { width: printLayout.width, height: printLayout.height } : exportDims),
+    [exportDims, printLayout],
+  );
+  // Past the single-canvas limit the export is rendered in strips and always written as PNG.
+  // PDF export renders in strips on its own.
+  const tiledExport =
+    exportFormat !== "application/pdf" && Math.max(fileDims.width, fileDims.height) > SINGLE_CANVAS_LIMIT;
+  const exportType = tiledExport ? "image/png" : exportFormat;
+  const exportInfo = exportFormatInfo(exportType);
+  const exportQuality = qualities[exportType];
+  // Formats without alpha (JPEG, PDF) keep the background color instead.
+  const transparentOutput = transparentBackground && exportInfo?.alpha === true;
+  const mask = useMemo(() => {
+    if (maskSource === "none") return null;
+    if (maskSource === "image") return maskImage;
+    if (maskSource === "text") return textMask(maskText, maskFont, maskBold);
+    return shapeMask(maskSource);
+  }, [maskBold, maskFont, maskImage, maskSource, maskText]);
   const mainItem = useMemo(
     () => images.find((i) => i.id === mainId) ?? images[0],
     [images, mainId],
   );
+  // Inclusive whole days; photos without a capture date only show while no range is set.
+  const visibleImages = useMemo(() => {
+    const from = parseCaptureDate(dateFrom);
+    const to = parseCaptureDate(dateTo);
+    if (from == null && to == null) return images;
+    return images.filter((i) => {
+      const takenAt = i.metadata?.takenAt;
+      return takenAt != null && (from == null || takenAt >= from) && (to == null || takenAt < to + 86_400_000);
+    });
+  }, [dateFrom, dateTo, images]);
+  const duplicateGroups = useMemo(() => findDuplicateGroups(images.map(duplicateCandidate)), [images]);
+  const duplicateExtras = duplicateGroups.reduce((sum, g) => sum + g.ids.length - 1, 0);
+  const secondMainItem = useMemo(
+    () => (useMain ? images.find((i) => i.id === secondMainId && i.id !== mainItem?.id) : undefined),
+    [images, mainItem, secondMainId, useMain],
+  );
 
   useEffect(() => {
     imagesRef.current = images;
@@ -137,8 +574,82 @@ export default function Home() {
   }, [images, mainId]);
 
   useEffect(() => {
+    const thumbnails = thumbnailsRef.current;
     return () => {
       for (const item of imagesRef.current) URL.revokeObjectURL(item.url);
+      for (const bitmap of thumbnails.values()) bitmap.close();
+      thumbnails.clear();
+    };
+  }, []);
+
+  // Collect native sizes, colors, capture metadata, duplicate fingerprints (and placeholder
+  // thumbnails) in the background so aspect-aware, color- and time-sorted layouts don't have to
+  // decode everything again at render time. Results are flushed in batches; a
+  // flush re-runs this effect, which picks up where it left off.
+  useEffect(() => {
+    const pending = images.filter((i) => i.width == null);
+    if (pending.length === 0) return;
+    let cancelled = false;
+    void (async () => {
+      const sizes = new Map<string, Pick<UiImageItem, "width" | "height" | "colors" | "metadata" | "fingerprint">>();
+      const flush = () => {
+        if (cancelled || sizes.size === 0) return;
+        const batch = new Map(sizes);
+        sizes.clear();
+        setImages((prev) => prev.map((i) => (batch.has(i.id) ? { ...i, ...batch.get(i.id) } : i)));
+      };
+      for (const item of pending) {
+        if (cancelled) return;
+        // Metadata is optional: a file it can't be read from still gets measured.
+        const metadata = item.metadata ?? (await readImageMetadata(item.file).catch(() => undefined));
+        try {
+          const { thumbnail, ...size } = await measureImage(item.file, THUMBNAIL_SIDE);
+          let colors = item.colors;
+          let fingerprint = item.fingerprint;
+          if (thumbnail) {
+            colors ??= extractImageColors(thumbnail, thumbnail.width, thumbnail.height) ?? undefined;
+            fingerprint ??= computeFingerprint(thumbnail, thumbnail.width, thumbnail.height) ?? undefined;
+            thumbnailsRef.current.get(item.id)?.close();
+            thumbnailsRef.current.set(item.id, thumbnail);
+          }
+          sizes.set(item.id, { ...size, colors, metadata, fingerprint });
+        } catch {
+          // Undecodable: record 0×0 so it is not retried; rendering reports the real error.
+          sizes.set(item.id, { width: 0, height: 0, metadata });
+        }
+        if (sizes.size >= 16) {
+          flush();
+          return;
+        }
+        await nextFrame();
+      }
+      flush();
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [images]);
+
+  useEffect(() => {
+    // Read after mount (not in useState initializers) to keep server and client markup identical.
+    const stored = loadArrangement();
+    setShuffleSeed(stored?.seed ?? createShuffleSeed());
+    setLockArrangement(stored?.locked ?? false);
+    setArrangementLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!arrangementLoaded) return;
+    saveArrangement({ seed: shuffleSeed, locked: lockArrangement });
+  }, [arrangementLoaded, lockArrangement, shuffleSeed]);
+
+  useEffect(() => {
+    let cancelled = false;
+    void probeExportFormats().then((formats) => {
+      if (!cancelled) setEncodableFormats(formats);
+    });
+    return () => {
+      cancelled = true;
     };
   }, []);
 
@@ -151,17 +662,66 @@ export default function Home() {
     setError(null);
   }, []);
 
-  const clearAll = useCallback(() => {
+  // Swaps the whole photo set (clearing, or switching projects): stops work and frees everything
+  // cached for the old photos.
+  const replaceImages = useCallback((next: UiImageItem[], nextMainId: string | null) => {
     abortRef.current?.abort();
     setImages((prev) => {
       for (const item of prev) URL.revokeObjectURL(item.url);
-      return [];
+      return next;
     });
-    setMainId(null);
+    for (const bitmap of thumbnailsRef.current.values()) bitmap.close();
+    thumbnailsRef.current.clear();
+    clearRenderCaches();
+    setMainId(nextMainId);
+    setSecondMainId(null);
+    setOrder(null);
+    setPins({});
+    setEditingId(null);
+    setPreviewVersion(0);
+    setEstimatedBytes(null);
     setProgress(null);
     setError(null);
   }, []);
 
+  const clearAll = useCallback(() => replaceImages([], null), [replaceImages]);
+
+  // Drops some photos, along with everything that refers to them.
+  const removeImages = useCallback((ids: ReadonlySet<string>) => {
+    if (ids.size === 0) return;
+    setImages((prev) => {
+      for (const item of prev) if (ids.has(item.id)) URL.revokeObjectURL(item.url);
+      return prev.filter((i) => !ids.has(i.id));
+    });
+    for (const id of ids) {
+      thumbnailsRef.current.get(id)?.close();
+      thumbnailsRef.current.delete(id);
+    }
+    clearRenderCaches([...ids]);
+    setMainId((prev) => (prev && ids.has(prev) ? null : prev));
+    setSecondMainId((prev) => (prev && ids.has(prev) ? null : prev));
+    setOrder((prev) => prev?.filter((id) => !ids.has(id)) ?? null);
+    setPins((prev) => Object.fromEntries(Object.entries(prev).filter(([id]) => !ids.has(id))));
+    setEditingId((prev) => (prev && ids.has(prev) ? null : prev));
+  }, []);
+
+  // Keeps one photo per duplicate group; the main images are always the ones kept.
+  const keepOnePerDuplicateGroup = useCallback(
+    (keep: DuplicateKeep) => {
+      const byId = new Map(images.map((i) => [i.id, duplicateCandidate(i)]));
+      const prefer = new Set([mainItem?.id, secondMainItem?.id].filter((id): id is string => id != null));
+      const drop = new Set<string>();
+      for (const group of duplicateGroups) {
+        const members = group.ids.flatMap((id) => byId.get(id) ?? []);
+        if (members.length < 2) continue;
+        const keeper = pickDuplicateKeeper(members, keep, prefer);
+        for (const m of members) if (m.id !== keeper.id) drop.add(m.id);
+      }
+      removeImages(drop);
+    },
+    [duplicateGroups, images, mainItem, removeImages, secondMainItem],
+  );
+
   const handleFileInput = useCallback(
     (e: ChangeEvent<HTMLInputElement>) => {
       const fileList = e.target.files;
@@ -181,119 +741,932 @@ export default function Home() {
   );
 
   const scaledGap = useCallback(
-    (size: number) => Math.max(0, Math.round(gapPxAtExport * (size / exportSize))),
-    [gapPxAtExport, exportSize],
+    (size: number) => Math.max(0, Math.round(gapPxAtExport * (size / exportLongSide))),
+    [exportLongSide, gapPxAtExport],
+  );
+
+  const collageOptions = useCallback(
+    (dims: { width: number; height: number }, longSide: number, seed: number): RenderCollageOptions => ({
+      width: dims.width,
+      height: dims.height,
+      mainRatio,
+      gap: scaledGap(longSide),
+      background,
+      shuffleOthers,
+      useMain,
+      mainFit,
+      mainPlacement,
+      mainAnchor,
+      layoutMode,
+      cropAnchor,
+      assignByAspect,
+      colorOrder: colorOrder === "none" ? undefined : colorOrder,
+      timeOrder,
+      dateCaptions,
+      seed,
+      order: order ?? undefined,
+      pins,
+      secondMainId: secondMainId ?? undefined,
+      mask: mask ?? undefined,
+      transparent: transparentOutput,
+      mosaic: mosaicEnabled
+        ? { columns: mosaicColumns, maxRepeats: mosaicMaxRepeats, tint: mosaicTint }
+        : undefined,
+      print: printLayout ? scalePrintOptions(printLayout.print, longSide / exportLongSide) : undefined,
+    }),
+    [
+      assignByAspect,
+      background,
+      colorOrder,
+      cropAnchor,
+      dateCaptions,
+      exportLongSide,
+      layoutMode,
+      mainAnchor,
+      mainFit,
+      mainPlacement,
+      mainRatio,
+      mask,
+      mosaicColumns,
+      mosaicEnabled,
+      mosaicMaxRepeats,
+      mosaicTint,
+      order,
+      pins,
+      printLayout,
+      scaledGap,
+      secondMainId,
+      shuffleOthers,
+      timeOrder,
+      transparentOutput,
+      useMain,
+    ],
+  );
+
+  const editingItem = useMemo(
+    () => (editingId ? (images.find((i) => i.id === editingId) ?? null) : null),
+    [editingId, images],
+  );
+
+  // Aspect ratio of the preview cell the edited image lands in, using the current seed.
+  const editingCellAspect = useMemo(() => {
+    if (!editingItem || !mainItem) return null;
+    try {
+      const plan = planCollage({
+        images,
+        mainId: mainItem.id,
+        options: collageOptions(previewDims, previewSize, shuffleSeed),
+      });
+      const placement = plan.placements.find((p) => p.item.id === editingItem.id);
+      if (!placement || placement.rect.height <= 0) return null;
+      return placement.rect.width / placement.rect.height;
+    } catch {
+      return null;
+    }
+  }, [collageOptions, editingItem, images, mainItem, previewDims, previewSize, shuffleSeed]);
+
+  const saveFocus = useCallback(
+    (focalPoint: FocalPoint | undefined, zoom: number | undefined) => {
+      if (!editingId) return;
+      setImages((prev) => prev.map((i) => (i.id === editingId ? { ...i, focalPoint, zoom } : i)));
+      setEditingId(null);
+    },
+    [editingId],
   );
 
   const canGenerate = images.length >= 1 && !!mainItem;
-  const canExport = canGenerate && images.length >= 1;
+  const exportTooLarge = Math.max(fileDims.width, fileDims.height) > MAX_TILED_EXPORT_SIZE;
+  const canExport = canGenerate && images.length >= 1 && !exportTooLarge;
 
   const cancel = useCallback(() => {
     abortRef.current?.abort();
   }, []);
 
-  const generatePreview = useCallback(async () => {
-    if (!canGenerate) return;
+  // `auto` previews come from the live-preview effect: they supersede each other, paint a
+  // placeholder first and leave the controls enabled so sliders keep moving.
+  const renderPreview = useCallback(
+    async (seed: number, auto = false) => {
+      if (!canGenerate) return;
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      if (!auto) setBusy(true);
+      setError(null);
+      setProgress({ phase: "layout", done: 0, total: 1, message: "准备预览…" });
+
+      const options = collageOptions(previewDims, previewSize, seed);
+      // Tiles can't be picked until the render reports the plan it actually drew: this quick
+      // plan may still lack image sizes and colors, and so place photos differently.
+      previewPlanRef.current = null;
+      try {
+        const plan = planCollage({ images, mainId: mainItem.id, options });
+        drawCollagePlaceholder({
+          canvas,
+          plan,
+          background: options.background,
+          transparent: options.transparent,
+          thumbnails: thumbnailsRef.current,
+        });
+      } catch {
+        // The full render reports layout problems properly.
+      }
+
+      try {
+        const plan = await renderCollagePreview({
+          canvas,
+          images,
+          mainId: mainItem.id,
+          options,
+          cacheBudgetBytes: cacheBudgetMb * 1024 * 1024,
+          signal: controller.signal,
+          onProgress: setProgress,
+        });
+        if (controller.signal.aborted) return;
+        previewPlanRef.current = plan;
+        setPreviewVersion((v) => v + 1);
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        setError(err instanceof Error ? err.message : "生成失败");
+      } finally {
+        if (!auto) setBusy(false);
+        if (abortRef.current === controller) abortRef.current = null;
+      }
+    },
+    [cacheBudgetMb, canGenerate, collageOptions, images, mainItem, previewDims, previewSize],
+  );
+
+  // Estimated from the last finished preview; re-run when the format, quality or size changes.
+  useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas || previewVersion === 0 || busy) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      estimateExportSize({
+        canvas,
+        type: exportType,
+        quality: exportQuality,
+        pixels: fileDims.width * fileDims.height,
+      })
+        .then((bytes) => {
+          if (!cancelled) setEstimatedBytes(bytes);
+        })
+        .catch(() => {
+          if (!cancelled) setEstimatedBytes(null);
+        });
+    }, SIZE_ESTIMATE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [busy, exportQuality, exportType, fileDims, previewVersion]);
+
+  // Live preview keeps the current arrangement (no reshuffle per tweak); any settings change
+  // restarts the debounce and the next render aborts the one in flight.
+  useEffect(() => {
+    if (!autoPreview || busy || !canGenerate) return;
+    const timer = setTimeout(() => void renderPreview(shuffleSeed, true), AUTO_PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [autoPreview, busy, canGenerate, renderPreview, shuffleSeed]);
+
+  // Unlocked: every preview rolls a fresh arrangement. Export always reuses the seed of the
+  // last preview, so the downloaded file matches what was approved.
+  const generatePreview = useCallback(() => {
+    let seed = shuffleSeed;
+    if (shuffleOthers && !lockArrangement) {
+      seed = createShuffleSeed();
+      setShuffleSeed(seed);
+    }
+    return renderPreview(seed);
+  }, [lockArrangement, renderPreview, shuffleOthers, shuffleSeed]);
+
+  const changeMainPlacement = useCallback((placement: CollageMainPlacement) => {
+    setMainPlacement(placement);
+    // A full-side main only fits against an edge; fold corners onto their horizontal side.
+    if (placement === "side") {
+      setMainAnchor((anchor) => (anchor.endsWith("left") ? "left" : anchor.endsWith("right") ? "right" : anchor));
+    }
+  }, []);
 
+  const reshuffle = useCallback(() => {
+    const seed = createShuffleSeed();
+    setShuffleSeed(seed);
+    // Also drops any manual arrangement; the shuffle takes over again once the order is gone.
+    if (order) {
+      rearrangedRef.current = true;
+      setOrder(null);
+      return;
+    }
+    return renderPreview(seed);
+  }, [order, renderPreview]);
+
+  const tileAtPointer = useCallback((e: PointerEvent<HTMLCanvasElement>) => {
+    const plan = previewPlanRef.current;
+    const canvas = e.currentTarget;
+    // Only pick from the plan the canvas currently shows.
+    if (!plan || plan.width !== canvas.width || plan.height !== canvas.height) return null;
+    const box = canvas.getBoundingClientRect();
+    if (box.width <= 0 || box.height <= 0) return null;
+    return placementAt(
+      plan,
+      ((e.clientX - box.left) / box.width) * plan.width,
+      ((e.clientY - box.top) / box.height) * plan.height,
+    );
+  }, []);
+
+  const handleCanvasPointerDown = useCallback(
+    (e: PointerEvent<HTMLCanvasElement>) => {
+      const plan = previewPlanRef.current;
+      const tile = busy || e.button !== 0 ? null : tileAtPointer(e);
+      if (!plan || !tile) return;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDrag({ fromId: tile.item.id, from: tile.rect, over: null, planWidth: plan.width, planHeight: plan.height });
+    },
+    [busy, tileAtPointer],
+  );
+
+  const handleCanvasPointerMove = useCallback(
+    (e: PointerEvent<HTMLCanvasElement>) => {
+      if (!drag) return;
+      const tile = tileAtPointer(e);
+      const over = tile && tile.item.id !== drag.fromId ? tile.rect : null;
+      if (over !== drag.over) setDrag({ ...drag, over });
+    },
+    [drag, tileAtPointer],
+  );
+
+  // Dropping one tile on another swaps them; with the main tile involved, the dragged photo
+  // becomes the main image and the old main takes its cell.
+  const handleCanvasPointerUp = useCallback(
+    (e: PointerEvent<HTMLCanvasElement>) => {
+      const plan = previewPlanRef.current;
+      const fromId = drag?.fromId;
+      setDrag(null);
+      const target = fromId ? tileAtPointer(e) : null;
+      if (!plan || !fromId || !target || target.item.id === fromId) return;
+      const toId = target.item.id;
+
+      const cells = plan.placements.filter((p) => p.role === "cell").map((p) => p.item.id);
+      // Main first, then the second main of a pair.
+      const mains = plan.placements.filter((p) => p.role === "main").map((p) => p.item.id);
+      if (mains.includes(fromId) && mains.includes(toId)) {
+        setMainId(mains[1]);
+        setSecondMainId(mains[0]);
+      } else if (mains.includes(fromId) || mains.includes(toId)) {
+        const [main, promoted] = mains.includes(fromId) ? [fromId, toId] : [toId, fromId];
+        if (main === mains[0]) setMainId(promoted);
+        else setSecondMainId(promoted);
+        setOrder(cells.map((id) => (id === promoted ? main : id)));
+      } else {
+        setOrder(cells.map((id) => (id === fromId ? toId : id === toId ? fromId : id)));
+      }
+      // A tile placed by hand is no longer held to its region.
+      setPins((prev) => {
+        if (!(fromId in prev) && !(toId in prev)) return prev;
+        const next = { ...prev };
+        delete next[fromId];
+        delete next[toId];
+        return next;
+      });
+      rearrangedRef.current = true;
+    },
+    [drag, tileAtPointer],
+  );
+
+  const cycleWeight = useCallback((id: string) => {
+    setImages((prev) =>
+      prev.map((i) => {
+        if (i.id !== id) return i;
+        const weight = (i.weight ?? 1) >= MAX_WEIGHT ? undefined : (i.weight ?? 1) + 1;
+        return { ...i, weight };
+      }),
+    );
+  }, []);
+
+  const cyclePin = useCallback((id: string) => {
+    setPins((prev) => {
+      const next = { ...prev };
+      const region = PIN_CYCLE[(PIN_CYCLE.indexOf(prev[id]) + 1) % PIN_CYCLE.length];
+      if (region) next[id] = region;
+      else delete next[id];
+      return next;
+    });
+  }, []);
+
+  // Redraw once the state from a manual rearrangement has landed (live preview does it anyway).
+  useEffect(() => {
+    if (!rearrangedRef.current || busy || autoPreview) return;
+    rearrangedRef.current = false;
+    void renderPreview(shuffleSeed);
+  }, [autoPreview, busy, renderPreview, shuffleSeed]);
+
+  const exportHd = useCallback(async () => {
+    if (!canExport) return;
+    abortRef.current?.abort();
     const controller = new AbortController();
     abortRef.current = controller;
     setBusy(true);
     setError(null);
-    setProgress({ phase: "layout", done: 0, total: 1, message: "准备预览…" });
+    setProgress({ phase: "layout", done: 0, total: 1, message: "准备导出…" });
 
     try {
-      await renderCollageToCanvas({
-        canvas,
+      const blob = await renderCollageToBlob({
         images,
         mainId: mainItem.id,
-        options: {
-          size: previewSize,
-          mainRatio,
-          gap: scaledGap(previewSize),
-          background,
-          shuffleOthers,
-          useMain,
-        },
+        options: collageOptions(exportDims, exportLongSide, shuffleSeed),
+        cacheBudgetBytes: cacheBudgetMb * 1024 * 1024,
+        type: exportType,
+        quality: exportQuality,
+        tiled: tiledExport,
+        // Print mode: the page is exactly the file's physical size; otherwise the chosen page.
+        pdf:
+          exportType === "application/pdf"
+            ? {
+                pageWidth: printLayout
+                  ? (fileDims.width / printDpi) * POINTS_PER_INCH
+                  : toPoints(pdfPageWidth, pdfUnit),
+                pageHeight: printLayout
+                  ? (fileDims.height / printDpi) * POINTS_PER_INCH
+                  : toPoints(pdfPageHeight, pdfUnit),
+                quality: exportQuality ?? 0.92,
+                contactSheet: pdfContactSheet,
+              }
+            : undefined,
         signal: controller.signal,
         onProgress: setProgress,
       });
+
+      const file = printLayout ? await withDpiMetadata(blob, printDpi) : blob;
+      const stamp = new Date().toISOString().replaceAll(/[:.]/g, "-");
+      const name = `smartcollage-${safeFilenamePart(mainItem.file.name)}-${fileDims.width}x${fileDims.height}-${stamp}.${exportFormatInfo(file.type)?.extension ?? exportInfo?.extension}`;
+      downloadBlob(file, name);
+      setProgress({ phase: "export", done: 1, total: 1, message: "已开始下载" });
     } catch (err) {
       if (err instanceof DOMException && err.name === "AbortError") return;
-      setError(err instanceof Error ? err.message : "生成失败");
+      setError(err instanceof Error ? err.message : "导出失败");
     } finally {
       setBusy(false);
-      abortRef.current = null;
+      if (abortRef.current === controller) abortRef.current = null;
     }
   }, [
-    background,
-    canGenerate,
+    cacheBudgetMb,
+    canExport,
+    collageOptions,
+    exportDims,
+    exportInfo,
+    exportLongSide,
+    exportQuality,
+    exportType,
+    fileDims,
     images,
     mainItem,
-    mainRatio,
-    previewSize,
-    scaledGap,
-    shuffleOthers,
-    useMain,
+    pdfContactSheet,
+    pdfPageHeight,
+    pdfPageWidth,
+    pdfUnit,
+    printDpi,
+    printLayout,
+    shuffleSeed,
+    tiledExport,
   ]);
 
-  const exportHd = useCallback(async () => {
+  const exportManifest = useCallback(async () => {
     if (!canExport) return;
+    abortRef.current?.abort();
     const controller = new AbortController();
     abortRef.current = controller;
     setBusy(true);
     setError(null);
-    setProgress({ phase: "layout", done: 0, total: 1, message: "准备导出…" });
 
-    const exportCanvas = document.createElement("canvas");
     try {
-      await renderCollageToCanvas({
-        canvas: exportCanvas,
+      const manifest = await buildCollageManifest({
         images,
         mainId: mainItem.id,
-        options: {
-          size: exportSize,
-          mainRatio,
-          gap: scaledGap(exportSize),
-          background,
-          shuffleOthers,
-          useMain,
-        },
+        options: collageOptions(exportDims, exportLongSide, shuffleSeed),
+        physical: printSettings ?? undefined,
         signal: controller.signal,
         onProgress: setProgress,
       });
+      const stamp = new Date().toISOString().replaceAll(/[:.]/g, "-");
+      const name = `smartcollage-${safeFilenamePart(mainItem.file.name)}-layout-${stamp}.json`;
+      downloadBlob(new Blob([JSON.stringify(manifest, null, 2)], { type: "application/json" }), name);
+      setProgress({ phase: "export", done: 1, total: 1, message: "布局清单已开始下载" });
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      setError(err instanceof Error ? err.message : "导出布局清单失败");
+    } finally {
+      setBusy(false);
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  }, [canExport, collageOptions, exportDims, exportLongSide, images, mainItem, printSettings, shuffleSeed]);
+
+  // Restores every setting the manifest's options came from, so the page re-plans the same layout.
+  // `ids` maps the manifest's image ids to the matched photos.
+  const applyManifestSettings = useCallback((manifest: CollageManifest, ids: Map<string, string>) => {
+    const { options, physical } = manifest;
+    const arrangement = remapArrangement(options, ids);
+    setOrder(arrangement.order ?? null);
+    setPins(arrangement.pins ?? {});
+    setSecondMainId(arrangement.secondMainId ?? null);
+    setUseMain(options.useMain);
+    setMainRatio(options.mainRatio);
+    setGapPxAtExport(options.gap);
+    setBackground(options.background);
+    setShuffleOthers(options.shuffleOthers);
+    setMainFit(options.mainFit ?? "canvas");
+    setMainPlacement(options.mainPlacement ?? "center");
+    setMainAnchor(options.mainAnchor ?? "top-left");
+    // Only the raster travels in the manifest, so a shape comes back as a custom silhouette.
+    setMaskImage(options.mask ?? null);
+    setMaskSource(options.mask ? "image" : "none");
+    setTransparentBackground(options.transparent ?? false);
+    setMosaicEnabled(options.mosaic != null);
+    if (options.mosaic) {
+      setMosaicColumns(options.mosaic.columns);
+      setMosaicMaxRepeats(options.mosaic.maxRepeats);
+      setMosaicTint(options.mosaic.tint);
+    }
+    setLayoutMode(options.layoutMode ?? "grid");
+    setCropAnchor(options.cropAnchor ?? "center");
+    setAssignByAspect(options.assignByAspect ?? false);
+    setColorOrder(options.colorOrder ?? "none");
+    setTimeOrder(options.timeOrder ?? false);
+    setDateCaptions(options.dateCaptions ?? false);
+    if (options.seed != null) {
+      setShuffleSeed(options.seed >>> 0);
+      setLockArrangement(true);
+    }
+    if (physical) {
+      setPrintMode(true);
+      setPrintWidthMm(physical.widthMm);
+      setPrintHeightMm(physical.heightMm);
+      setPrintDpi(physical.dpi);
+      setBleedMm(physical.bleedMm);
+      setCropMarks(physical.cropMarks);
+    } else {
+      setPrintMode(false);
+      setAspectId(closestAspectPreset(options.width, options.height).id);
+      setExportSize(Math.max(options.width, options.height));
+    }
+  }, []);
+
+  const importManifest = useCallback(
+    async (file: File) => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setBusy(true);
+      setError(null);
+      setProgress({ phase: "layout", done: 0, total: 1, message: "读取布局清单…" });
+
+      try {
+        const manifest = parseCollageManifest(await file.text());
+        const matched = await matchManifestImages({
+          manifest,
+          images,
+          signal: controller.signal,
+          onProgress: setProgress,
+        });
+        if (matched.ids.size === 0) throw new Error("当前图片与布局清单中的文件都不匹配，请先上传清单对应的照片。");
+
+        applyManifestSettings(manifest, matched.ids);
+        setImages(matched.images);
+        if (matched.mainId) setMainId(matched.mainId);
+
+        const exact =
+          matched.missing.length === 0 &&
+          matched.extra === 0 &&
+          planMatchesManifest(
+            planCollage({
+              images: matched.images,
+              mainId: matched.mainId ?? "",
+              options: { ...manifest.options, ...remapArrangement(manifest.options, matched.ids) },
+            }),
+            manifest,
+            matched.ids,
+          );
+        setProgress({
+          phase: "layout",
+          done: 1,
+          total: 1,
+          message: exact
+            ? "已按布局清单还原，点击「生成预览」查看"
+            : `已导入布局清单：缺少 ${matched.missing.length} 张、多出 ${matched.extra} 张，布局可能与原拼图不同`,
+        });
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        setError(err instanceof Error ? err.message : "导入布局清单失败");
+      } finally {
+        setBusy(false);
+        if (abortRef.current === controller) abortRef.current = null;
+      }
+    },
+    [applyManifestSettings, images],
+  );
+
+  const handleManifestInput = useCallback(
+    (e: ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (file) void importManifest(file);
+    },
+    [importManifest],
+  );
+
+  const handleMaskInput = useCallback(async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setError(null);
+    try {
+      const next = await imageMask(file);
+      if (!next) {
+        setError("剪影图片中没有可用的形状：请使用透明背景的 PNG，或白底黑色剪影。");
+        return;
+      }
+      setMaskImage(next);
+      setMaskSource("image");
+    } catch {
+      setError("无法读取剪影图片。");
+    }
+  }, []);
+
+  const projectSettings = useMemo<ProjectSettings>(
+    () => ({
+      useMain,
+      mainRatio,
+      gapPxAtExport,
+      background,
+      shuffleOthers,
+      assignByAspect,
+      colorOrder,
+      timeOrder,
+      dateCaptions,
+      layoutMode,
+      shuffleSeed,
+      lockArrangement,
+      mainFit,
+      mainPlacement,
+      mainAnchor,
+      cropAnchor,
+      aspectId,
+      previewSize,
+      exportSize,
+      exportFormat,
+      qualities,
+      pdfPageWidth,
+      pdfPageHeight,
+      pdfUnit,
+      pdfContactSheet,
+      printMode,
+      printWidthMm,
+      printHeightMm,
+      printDpi,
+      bleedMm,
+      cropMarks,
+      secondMainId,
+      order,
+      pins,
+      maskSource,
+      maskText,
+      maskFont,
+      maskBold,
+      maskImage,
+      transparentBackground,
+      mosaicEnabled,
+      mosaicColumns,
+      mosaicMaxRepeats,
+      mosaicTint,
+    }),
+    [
+      aspectId,
+      assignByAspect,
+      background,
+      bleedMm,
+      colorOrder,
+      cropAnchor,
+      cropMarks,
+      dateCaptions,
+      exportFormat,
+      exportSize,
+      gapPxAtExport,
+      layoutMode,
+      lockArrangement,
+      mainAnchor,
+      mainFit,
+      mainPlacement,
+      mainRatio,
+      maskBold,
+      maskFont,
+      maskImage,
+      maskSource,
+      maskText,
+      mosaicColumns,
+      mosaicEnabled,
+      mosaicMaxRepeats,
+      mosaicTint,
+      order,
+      pdfContactSheet,
+      pdfPageHeight,
+      pdfPageWidth,
+      pdfUnit,
+      pins,
+      previewSize,
+      printDpi,
+      printHeightMm,
+      printMode,
+      printWidthMm,
+      qualities,
+      secondMainId,
+      shuffleOthers,
+      shuffleSeed,
+      timeOrder,
+      transparentBackground,
+      useMain,
+    ],
+  );
+
+  // Projects saved by older versions may lack newer settings; those keep their current value.
+  const applyProjectSettings = useCallback((settings: Partial<ProjectSettings>) => {
+    const setters: ProjectSettingSetters = {
+      useMain: setUseMain,
+      mainRatio: setMainRatio,
+      gapPxAtExport: setGapPxAtExport,
+      background: setBackground,
+      shuffleOthers: setShuffleOthers,
+      assignByAspect: setAssignByAspect,
+      colorOrder: setColorOrder,
+      timeOrder: setTimeOrder,
+      dateCaptions: setDateCaptions,
+      layoutMode: setLayoutMode,
+      shuffleSeed: (seed) => setShuffleSeed(seed >>> 0),
+      lockArrangement: setLockArrangement,
+      mainFit: setMainFit,
+      mainPlacement: setMainPlacement,
+      mainAnchor: setMainAnchor,
+      cropAnchor: setCropAnchor,
+      aspectId: (id) => {
+        if (ASPECT_PRESETS.some((p) => p.id === id)) setAspectId(id);
+      },
+      previewSize: setPreviewSize,
+      exportSize: setExportSize,
+      exportFormat: (format) => {
+        if (exportFormatInfo(format)) setExportFormat(format);
+      },
+      qualities: (saved) => setQualities({ ...DEFAULT_QUALITIES, ...saved }),
+      pdfPageWidth: setPdfPageWidth,
+      pdfPageHeight: setPdfPageHeight,
+      pdfUnit: setPdfUnit,
+      pdfContactSheet: setPdfContactSheet,
+      printMode: setPrintMode,
+      printWidthMm: setPrintWidthMm,
+      printHeightMm: setPrintHeightMm,
+      printDpi: setPrintDpi,
+      bleedMm: setBleedMm,
+      cropMarks: setCropMarks,
+      secondMainId: setSecondMainId,
+      order: setOrder,
+      pins: setPins,
+      maskSource: setMaskSource,
+      maskText: setMaskText,
+      maskFont: setMaskFont,
+      maskBold: setMaskBold,
+      maskImage: setMaskImage,
+      transparentBackground: setTransparentBackground,
+      mosaicEnabled: setMosaicEnabled,
+      mosaicColumns: setMosaicColumns,
+      mosaicMaxRepeats: setMosaicMaxRepeats,
+      mosaicTint: setMosaicTint,
+    };
+    const apply = <K extends keyof ProjectSettings>(key: K) => {
+      const value: ProjectSettings[K] | undefined = settings[key];
+      if (value !== undefined) setters[key](value);
+    };
+    for (const key of Object.keys(setters) as (keyof ProjectSettings)[]) apply(key);
+  }, []);
+
+  const startProject = useCallback(() => {
+    replaceImages([], null);
+    const id = makeId();
+    setProject({ id, createdAt: Date.now() });
+    setProjectName(defaultProjectName());
+    saveLastProjectId(id);
+  }, [replaceImages]);
 
-      setProgress({ phase: "export", done: 0, total: 1, message: "导出文件…" });
-      const blob = await canvasToBlob(
-        exportCanvas,
-        exportFormat,
-        exportFormat === "image/jpeg" ? jpegQuality : undefined,
+  // Returns false if the project no longer exists.
+  const openProject = useCallback(
+    async (id: string) => {
+      const loaded = await loadProject<Partial<ProjectSettings>>(id);
+      if (!loaded) return false;
+      const { record } = loaded;
+      replaceImages(
+        loaded.images.map((item) => ({ ...item, url: URL.createObjectURL(item.file) })),
+        record.mainId,
       );
-      const stamp = new Date().toISOString().replaceAll(/[:.]/g, "-");
-      const name = `smartcollage-${safeFilenamePart(mainItem.file.name)}-${exportSize}x${exportSize}-${stamp}.${exportFormat === "image/png" ? "png" : "jpg"}`;
-      downloadBlob(blob, name);
-      setProgress({ phase: "export", done: 1, total: 1, message: "已开始下载" });
+      applyProjectSettings(record.settings);
+      setProject({ id: record.id, createdAt: record.createdAt });
+      setProjectName(record.name);
+      saveLastProjectId(record.id);
+      return true;
+    },
+    [applyProjectSettings, replaceImages],
+  );
+
+  const switchProject = useCallback(
+    async (id: string) => {
+      try {
+        if (!(await openProject(id))) {
+          setError("该项目已不存在。");
+          setProjects(await listProjects());
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "打开项目失败");
+      }
+    },
+    [openProject],
+  );
+
+  const removeProject = useCallback(async () => {
+    if (!project || !window.confirm(`删除项目「${projectName}」及其保存的图片？`)) return;
+    try {
+      await deleteProject(project.id);
+      setProjects(await listProjects());
+      setStorageUsage(await getStorageUsage());
+      startProject();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "删除项目失败");
+    }
+  }, [project, projectName, startProject]);
+
+  const saveProjectFile = useCallback(async () => {
+    if (images.length === 0) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setBusy(true);
+    setError(null);
+
+    try {
+      const canvas = canvasRef.current;
+      const preview = canvas && previewVersion > 0 ? await projectPreview(canvas) : undefined;
+      const file = await buildProjectFile<ProjectSettings>({
+        name: projectName.trim() || defaultProjectName(),
+        mainId,
+        images,
+        settings: projectSettings,
+        preview,
+        signal: controller.signal,
+        onProgress: (done, total) =>
+          setProgress({ phase: "export", done, total, message: `打包项目文件 ${done}/${total}…` }),
+      });
+      downloadBlob(file, `${safeFilenamePart(projectName.trim() || "smartcollage")}.${PROJECT_FILE_EXTENSION}`);
+      setProgress({ phase: "export", done: 1, total: 1, message: "项目文件已开始下载" });
     } catch (err) {
       if (err instanceof DOMException && err.name === "AbortError") return;
-      setError(err instanceof Error ? err.message : "导出失败");
+      setError(err instanceof Error ? err.message : "保存项目文件失败");
     } finally {
       setBusy(false);
-      abortRef.current = null;
+      if (abortRef.current === controller) abortRef.current = null;
     }
-  }, [
-    background,
-    canExport,
-    exportFormat,
-    exportSize,
-    images,
-    jpegQuality,
-    mainItem,
-    mainRatio,
-    scaledGap,
-    shuffleOthers,
-    useMain,
-  ]);
+  }, [images, mainId, previewVersion, projectName, projectSettings]);
+
+  // An opened file becomes a new project here (autosaved like any other), not a link to the file.
+  const openProjectFile = useCallback(
+    async (file: File) => {
+      setBusy(true);
+      setError(null);
+      setProgress({ phase: "decode", done: 0, total: 1, message: "读取项目文件…" });
+
+      try {
+        const opened = await readProjectFile<ProjectSettings>(file, makeId);
+        if (opened.images.length === 0) throw new Error("项目文件中没有图片。");
+        replaceImages(
+          opened.images.map((item) => ({ ...item, url: URL.createObjectURL(item.file) })),
+          opened.mainId,
+        );
+        // The arrangement refers to images by id, so it follows them to their new ids.
+        const { order: savedOrder, pins: savedPins, secondMainId: savedSecond, ...settings } = opened.settings;
+        const arrangement = remapArrangement(
+          { order: savedOrder ?? undefined, pins: savedPins, secondMainId: savedSecond ?? undefined },
+          opened.ids,
+        );
+        applyProjectSettings({
+          ...settings,
+          order: arrangement.order ?? null,
+          pins: arrangement.pins ?? {},
+          secondMainId: arrangement.secondMainId ?? null,
+        });
+        const id = makeId();
+        setProject({ id, createdAt: Date.now() });
+        setProjectName(opened.name || file.name.replace(/\.[^.]+$/, ""));
+        saveLastProjectId(id);
+        setProgress({
+          phase: "decode",
+          done: 1,
+          total: 1,
+          message:
+            opened.missing > 0
+              ? `已打开项目，但有 ${opened.missing} 张图片在文件中缺失`
+              : `已打开项目（${opened.images.length} 张），点击「生成预览」查看`,
+        });
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "打开项目文件失败");
+        setProgress(null);
+      } finally {
+        setBusy(false);
+      }
+    },
+    [applyProjectSettings, replaceImages],
+  );
+
+  const handleProjectFileInput = useCallback(
+    (e: ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = "";
+      if (file) void openProjectFile(file);
+    },
+    [openProjectFile],
+  );
+
+  // Reopen the last project once on load, unless photos were already added in the meantime.
+  useEffect(() => {
+    if (!supportsProjects()) return;
+    let cancelled = false;
+    void (async () => {
+      try {
+        const list = await listProjects();
+        if (cancelled) return;
+        const lastId = loadLastProjectId();
+        const reopened =
+          lastId != null && imagesRef.current.length === 0 && list.some((p) => p.id === lastId)
+            ? await openProject(lastId)
+            : false;
+        if (cancelled) return;
+        if (!reopened) {
+          setProject({ id: makeId(), createdAt: Date.now() });
+          setProjectName(defaultProjectName());
+        }
+        setProjects(list);
+        setStorageUsage(await getStorageUsage());
+      } catch {
+        // IndexedDB can be blocked (some private modes); the page works, it just doesn't save.
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [openProject]);
+
+  const projectsLoaded = projects != null;
+  const projectSaved = useMemo(
+    () => project != null && projects != null && projects.some((p) => p.id === project.id),
+    [project, projects],
+  );
+
+  // Autosave. A new project is only written once it has photos, so opening the page doesn't
+  // litter the list with empty projects.
+  useEffect(() => {
+    if (!project || !projectsLoaded || (images.length === 0 && !projectSaved)) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      void (async () => {
+        try {
+          if (!projectSaved) void requestPersistentStorage();
+          await saveProject<ProjectSettings>(
+            {
+              id: project.id,
+              name: projectName.trim() || defaultProjectName(),
+              createdAt: project.createdAt,
+              mainId,
+              settings: projectSettings,
+            },
+            images,
+          );
+          saveLastProjectId(project.id);
+          const list = await listProjects();
+          const usage = await getStorageUsage();
+          if (cancelled) return;
+          setProjects(list);
+          setStorageUsage(usage);
+        } catch (err) {
+          if (cancelled) return;
+          setError(
+            err instanceof DOMException && err.name === "QuotaExceededError"
+              ? "浏览器存储空间不足，项目未能保存；可删除不需要的项目后重试。"
+              : err instanceof Error
+                ? `项目保存失败：${err.message}`
+                : "项目保存失败",
+          );
+        }
+      })();
+    }, PROJECT_SAVE_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [images, mainId, project, projectName, projectSaved, projectSettings, projectsLoaded]);
 
   const generateDemo = useCallback(async () => {
     const controller = new AbortController();
@@ -330,7 +1703,7 @@ export default function Home() {
           <div>
             <div className="text-lg font-semibold tracking-tight">SmartCollage</div>
             <div className="text-sm text-zinc-600 dark:text-zinc-400">
-              大规模照片拼图（中心主图 + 环绕网格），导出正方形高清图片
+              大规模照片拼图（中心主图 + 环绕网格），支持多种画幅比例导出高清图片
             </div>
           </div>
           <div className="flex flex-wrap gap-2">
@@ -405,6 +1778,69 @@ export default function Home() {
             </div>
           </div>
 
+          {projects != null && project ? (
+            <div className="mt-5 rounded-xl border border-zinc-200/70 bg-white/60 p-4 dark:border-zinc-800/70 dark:bg-zinc-950/30">
+              <div className="flex items-center justify-between gap-3">
+                <div className="text-sm font-medium">项目</div>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm font-medium hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-800 dark:bg-zinc-950 dark:hover:bg-zinc-900"
+                    onClick={startProject}
+                    disabled={busy}
+                  >
+                    新建
+                  </button>
+                  <button
+                    type="button"
+                    className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm font-medium hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-800 dark:bg-zinc-950 dark:hover:bg-zinc-900"
+                    onClick={() => void removeProject()}
+                    disabled={busy || !projectSaved}
+                  >
+                    删除
+                  </button>
+                </div>
+              </div>
+              <div className="mt-3 grid gap-2">
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  当前项目
+                  <select
+                    value={projectSaved ? project.id : ""}
+                    onChange={(e) => void switchProject(e.target.value)}
+                    name="project"
+                    className="w-48 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                    disabled={busy}
+                  >
+                    {projectSaved ? null : <option value="">（未保存的新项目）</option>}
+                    {projects.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.name}（{p.imageCount} 张）
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  项目名称
+                  <input
+                    type="text"
+                    value={projectName}
+                    onChange={(e) => setProjectName(e.target.value)}
+                    name="projectName"
+                    className="w-48 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                    disabled={busy}
+                  />
+                </label>
+                <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                  图片与设置自动保存在本浏览器中
+                  {storageUsage && storageUsage.quota > 0
+                    ? `；已用 ${formatBytes(storageUsage.usage)} / 配额 ${formatBytes(storageUsage.quota)}（${Math.round((storageUsage.usage / storageUsage.quota) * 100)}%）`
+                    : ""}
+                  {storageUsage && !storageUsage.persisted ? "；空间紧张时浏览器可能清除已保存的项目" : ""}
+                </div>
+              </div>
+            </div>
+          ) : null}
+
           <div className="mt-5 grid gap-4 sm:grid-cols-2">
             <div className="rounded-xl border border-zinc-200/70 bg-white/60 p-4 dark:border-zinc-800/70 dark:bg-zinc-950/30">
               <div className="text-sm font-medium">主图设置</div>
@@ -422,7 +1858,9 @@ export default function Home() {
                 </label>
                 <div className="text-xs text-zinc-600 dark:text-zinc-400">
                   {useMain
-                    ? `主图边长占画布边长：${Math.round(mainRatio * 100)}%（面积约 ${mainAreaPercent}%）`
+                    ? mainFit === "image"
+                      ? `主图面积约占画布 ${mainAreaPercent}%（保持原图比例）`
+                      : `主图边长占画布边长：${Math.round(mainRatio * 100)}%（面积约 ${mainAreaPercent}%）`
                     : "关闭后将使用全图网格拼图（无中心主图）。"}
                 </div>
                 <input
@@ -436,6 +1874,132 @@ export default function Home() {
                   className="mt-1 w-full accent-zinc-900 dark:accent-zinc-100"
                   disabled={busy || !useMain}
                 />
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  主图形状
+                  <select
+                    value={mainFit}
+                    onChange={(e) => setMainFit(e.target.value as CollageMainFit)}
+                    name="mainFit"
+                    className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                    disabled={busy || !useMain || mask != null}
+                  >
+                    <option value="canvas">随画布比例</option>
+                    <option value="image">保持原图比例</option>
+                  </select>
+                </label>
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  主图位置
+                  <select
+                    value={mainPlacement}
+                    onChange={(e) => changeMainPlacement(e.target.value as CollageMainPlacement)}
+                    name="mainPlacement"
+                    className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                    disabled={busy || !useMain || mask != null}
+                  >
+                    {MAIN_PLACEMENTS.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  主图方位
+                  <select
+                    value={mainAnchor}
+                    onChange={(e) => setMainAnchor(e.target.value as CollageMainAnchor)}
+                    name="mainAnchor"
+                    className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                    disabled={busy || !useMain || mainPlacement === "center" || mask != null}
+                  >
+                    {MAIN_ANCHORS.filter((a) => mainPlacement !== "side" || a.side).map((a) => (
+                      <option key={a.id} value={a.id}>
+                        {a.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  并排第二主图
+                  <select
+                    value={secondMainItem?.id ?? ""}
+                    onChange={(e) => setSecondMainId(e.target.value || null)}
+                    name="secondMainId"
+                    className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                    disabled={busy || !useMain || images.length < 2}
+                  >
+                    <option value="">无</option>
+                    {images
+                      .filter((i) => i.id !== mainItem?.id)
+                      .map((i) => (
+                        <option key={i.id} value={i.id}>
+                          {i.file.name}
+                        </option>
+                      ))}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  主图马赛克
+                  <input
+                    type="checkbox"
+                    checked={mosaicEnabled}
+                    onChange={(e) => setMosaicEnabled(e.target.checked)}
+                    name="mosaicEnabled"
+                    className="h-4 w-4 accent-zinc-900 dark:accent-zinc-100"
+                    disabled={busy || !useMain || images.length < 2}
+                  />
+                </label>
+                {mosaicEnabled && useMain ? (
+                  <>
+                    <div className="text-xs text-zinc-600 dark:text-zinc-400">
+                      用其余照片按颜色拼出主图，每格放颜色最接近的一张。
+                    </div>
+                    <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                      横向格数
+                      <input
+                        type="number"
+                        min={MIN_MOSAIC_COLUMNS}
+                        max={MAX_MOSAIC_COLUMNS}
+                        step={1}
+                        name="mosaicColumns"
+                        value={mosaicColumns}
+                        onChange={(e) =>
+                          setMosaicColumns(clamp(Math.round(Number(e.target.value)), MIN_MOSAIC_COLUMNS, MAX_MOSAIC_COLUMNS))
+                        }
+                        className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                        disabled={busy}
+                      />
+                    </label>
+                    <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                      每张最多重复（0 不限）
+                      <input
+                        type="number"
+                        min={0}
+                        max={999}
+                        step={1}
+                        name="mosaicMaxRepeats"
+                        value={mosaicMaxRepeats}
+                        onChange={(e) => setMosaicMaxRepeats(clamp(Math.round(Number(e.target.value)), 0, 999))}
+                        className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                        disabled={busy}
+                      />
+                    </label>
+                    <div className="text-xs text-zinc-600 dark:text-zinc-400">
+                      着色强度：{Math.round(mosaicTint * 100)}%（越高主图越清晰）
+                    </div>
+                    <input
+                      type="range"
+                      min={0}
+                      max={0.8}
+                      step={0.05}
+                      name="mosaicTint"
+                      value={mosaicTint}
+                      onChange={(e) => setMosaicTint(Number(e.target.value))}
+                      className="mt-1 w-full accent-zinc-900 dark:accent-zinc-100"
+                      disabled={busy}
+                    />
+                  </>
+                ) : null}
               </div>
             </div>
 
@@ -461,48 +2025,246 @@ export default function Home() {
               <div className="text-sm font-medium">导出设置</div>
               <div className="mt-3 grid gap-2">
                 <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
-                  输出尺寸(px)
+                  印刷模式
                   <input
-                    type="number"
-                    min={512}
-                    max={8192}
-                    step={256}
-                    name="exportSize"
-                    value={exportSize}
-                    onChange={(e) => setExportSize(clamp(Number(e.target.value), 512, 8192))}
-                    className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                    type="checkbox"
+                    checked={printMode}
+                    onChange={(e) => setPrintMode(e.target.checked)}
+                    name="printMode"
+                    className="h-4 w-4 accent-zinc-900 dark:accent-zinc-100"
                     disabled={busy}
                   />
                 </label>
+                {printMode ? (
+                  <>
+                    <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                      成品宽度(mm)
+                      <input
+                        type="number"
+                        min={10}
+                        max={2000}
+                        step={1}
+                        name="printWidthMm"
+                        value={printWidthMm}
+                        onChange={(e) => setPrintWidthMm(clamp(Number(e.target.value), 10, 2000))}
+                        className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                        disabled={busy}
+                      />
+                    </label>
+                    <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                      成品高度(mm)
+                      <input
+                        type="number"
+                        min={10}
+                        max={2000}
+                        step={1}
+                        name="printHeightMm"
+                        value={printHeightMm}
+                        onChange={(e) => setPrintHeightMm(clamp(Number(e.target.value), 10, 2000))}
+                        className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                        disabled={busy}
+                      />
+                    </label>
+                    <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                      分辨率(DPI)
+                      <input
+                        type="number"
+                        min={72}
+                        max={1200}
+                        step={1}
+                        name="printDpi"
+                        value={printDpi}
+                        onChange={(e) => setPrintDpi(clamp(Number(e.target.value), 72, 1200))}
+                        className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                        disabled={busy}
+                      />
+                    </label>
+                    <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                      出血(mm)
+                      <input
+                        type="number"
+                        min={0}
+                        max={10}
+                        step={0.5}
+                        name="bleedMm"
+                        value={bleedMm}
+                        onChange={(e) => setBleedMm(clamp(Number(e.target.value), 0, 10))}
+                        className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                        disabled={busy}
+                      />
+                    </label>
+                    <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                      裁切标记
+                      <input
+                        type="checkbox"
+                        checked={cropMarks}
+                        onChange={(e) => setCropMarks(e.target.checked)}
+                        name="cropMarks"
+                        className="h-4 w-4 accent-zinc-900 dark:accent-zinc-100"
+                        disabled={busy}
+                      />
+                    </label>
+                    <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                      成品 {exportDims.width}×{exportDims.height}px，含出血{cropMarks ? "和裁切标记" : ""}共{" "}
+                      {fileDims.width}×{fileDims.height}px
+                    </div>
+                    {exportTooLarge ? (
+                      <div className="text-xs text-red-600 dark:text-red-400">
+                        像素尺寸超过 {MAX_TILED_EXPORT_SIZE}px 上限，请减小尺寸或 DPI。
+                      </div>
+                    ) : null}
+                  </>
+                ) : (
+                  <>
+                    <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                      画幅比例
+                      <select
+                        value={aspectId}
+                        onChange={(e) => setAspectId(e.target.value)}
+                        name="aspect"
+                        className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                        disabled={busy}
+                      >
+                        {ASPECT_PRESETS.map((preset) => (
+                          <option key={preset.id} value={preset.id}>
+                            {preset.label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                      长边尺寸(px)
+                      <input
+                        type="number"
+                        min={512}
+                        max={MAX_TILED_EXPORT_SIZE}
+                        step={256}
+                        name="exportSize"
+                        value={exportSize}
+                        onChange={(e) => setExportSize(clamp(Number(e.target.value), 512, MAX_TILED_EXPORT_SIZE))}
+                        className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                        disabled={busy}
+                      />
+                    </label>
+                  </>
+                )}
                 <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
                   格式
                   <select
-                    value={exportFormat}
-                    onChange={(e) => setExportFormat(e.target.value as "image/png" | "image/jpeg")}
+                    value={exportType}
+                    onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
                     name="exportFormat"
                     className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
                     disabled={busy}
                   >
-                    <option value="image/png">PNG</option>
-                    <option value="image/jpeg">JPEG</option>
+                    {EXPORT_FORMATS.map((format) => {
+                      const unsupported =
+                        format.probe && encodableFormats != null && !encodableFormats.has(format.type);
+                      const available = !format.probe || encodableFormats?.has(format.type) === true;
+                      // Strip-by-strip export only writes PNG (or PDF, which tiles on its own).
+                      const tileable = format.type === "image/png" || format.type === "application/pdf";
+                      return (
+                        <option
+                          key={format.type}
+                          value={format.type}
+                          disabled={!available || (tiledExport && !tileable)}
+                        >
+                          {unsupported ? `${format.label}（不支持）` : format.label}
+                        </option>
+                      );
+                    })}
                   </select>
                 </label>
-                {exportFormat === "image/jpeg" ? (
+                {tiledExport ? (
+                  <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                    长边超过 {SINGLE_CANVAS_LIMIT}px，将分块渲染并以 PNG 导出。
+                  </div>
+                ) : null}
+                {exportType === "application/pdf" ? (
+                  <>
+                    {printMode ? (
+                      <div className="text-xs text-zinc-500 dark:text-zinc-400">PDF 页面与印刷尺寸（含出血）一致。</div>
+                    ) : (
+                      <>
+                        <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                          页面单位
+                          <select
+                            value={pdfUnit}
+                            onChange={(e) => setPdfUnit(e.target.value as PdfPageUnit)}
+                            name="pdfUnit"
+                            className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                            disabled={busy}
+                          >
+                            <option value="mm">毫米</option>
+                            <option value="in">英寸</option>
+                          </select>
+                        </label>
+                        <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                          页面宽度
+                          <input
+                            type="number"
+                            min={1}
+                            max={5000}
+                            step={pdfUnit === "mm" ? 1 : 0.1}
+                            name="pdfPageWidth"
+                            value={pdfPageWidth}
+                            onChange={(e) => setPdfPageWidth(clamp(Number(e.target.value), 1, 5000))}
+                            className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                            disabled={busy}
+                          />
+                        </label>
+                        <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                          页面高度
+                          <input
+                            type="number"
+                            min={1}
+                            max={5000}
+                            step={pdfUnit === "mm" ? 1 : 0.1}
+                            name="pdfPageHeight"
+                            value={pdfPageHeight}
+                            onChange={(e) => setPdfPageHeight(clamp(Number(e.target.value), 1, 5000))}
+                            className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                            disabled={busy}
+                          />
+                        </label>
+                      </>
+                    )}
+                    <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                      附加索引页
+                      <input
+                        type="checkbox"
+                        checked={pdfContactSheet}
+                        onChange={(e) => setPdfContactSheet(e.target.checked)}
+                        name="pdfContactSheet"
+                        className="h-4 w-4 accent-zinc-900 dark:accent-zinc-100"
+                        disabled={busy}
+                      />
+                    </label>
+                  </>
+                ) : null}
+                {exportInfo && exportQuality != null ? (
                   <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
-                    JPEG 质量
+                    {exportType === "application/pdf" ? "JPEG" : exportInfo.label} 质量
                     <input
                       type="number"
-                      min={0.5}
+                      min={0.3}
                       max={1}
                       step={0.01}
-                      name="jpegQuality"
-                      value={jpegQuality}
-                      onChange={(e) => setJpegQuality(clamp(Number(e.target.value), 0.5, 1))}
+                      name="exportQuality"
+                      value={exportQuality}
+                      onChange={(e) =>
+                        setQualities((prev) => ({ ...prev, [exportType]: clamp(Number(e.target.value), 0.3, 1) }))
+                      }
                       className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
                       disabled={busy}
                     />
                   </label>
                 ) : null}
+                <div className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {estimatedBytes != null
+                    ? `预计文件大小：约 ${formatBytes(estimatedBytes)}（按预览估算）`
+                    : "生成预览后显示预计文件大小"}
+                </div>
               </div>
             </div>
 
@@ -520,6 +2282,32 @@ export default function Home() {
                     disabled={busy}
                   />
                 </label>
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  布局模式
+                  <select
+                    value={layoutMode}
+                    onChange={(e) => setLayoutMode(e.target.value as CollageLayoutMode)}
+                    name="layoutMode"
+                    className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                    disabled={busy}
+                  >
+                    <option value="grid">均匀网格</option>
+                    <option value="justified">按比例行排</option>
+                  </select>
+                </label>
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  裁切锚点
+                  <select
+                    value={cropAnchor}
+                    onChange={(e) => setCropAnchor(e.target.value as CollageCropAnchor)}
+                    name="cropAnchor"
+                    className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                    disabled={busy}
+                  >
+                    <option value="center">居中</option>
+                    <option value="saliency">智能（主体）</option>
+                  </select>
+                </label>
                 <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
                   打乱顺序
                   <input
@@ -532,7 +2320,109 @@ export default function Home() {
                   />
                 </label>
                 <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
-                  预览尺寸(px)
+                  按颜色排列
+                  <select
+                    value={colorOrder}
+                    onChange={(e) => setColorOrder(e.target.value as CollageColorOrder | "none")}
+                    name="colorOrder"
+                    className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                    disabled={busy || !useMain || timeOrder}
+                  >
+                    {COLOR_ORDERS.map((o) => (
+                      <option key={o.id} value={o.id}>
+                        {o.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  按拍摄时间排列
+                  <input
+                    type="checkbox"
+                    checked={timeOrder}
+                    onChange={(e) => setTimeOrder(e.target.checked)}
+                    name="timeOrder"
+                    className="h-4 w-4 accent-zinc-900 dark:accent-zinc-100"
+                    disabled={busy}
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  显示拍摄日期
+                  <input
+                    type="checkbox"
+                    checked={dateCaptions}
+                    onChange={(e) => setDateCaptions(e.target.checked)}
+                    name="dateCaptions"
+                    className="h-4 w-4 accent-zinc-900 dark:accent-zinc-100"
+                    disabled={busy}
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  按长宽比分配格子
+                  <input
+                    type="checkbox"
+                    checked={assignByAspect}
+                    onChange={(e) => setAssignByAspect(e.target.checked)}
+                    name="assignByAspect"
+                    className="h-4 w-4 accent-zinc-900 dark:accent-zinc-100"
+                    disabled={busy || layoutMode === "justified" || timeOrder || (useMain && colorOrder !== "none")}
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  锁定排列
+                  <input
+                    type="checkbox"
+                    checked={lockArrangement}
+                    onChange={(e) => setLockArrangement(e.target.checked)}
+                    name="lockArrangement"
+                    className="h-4 w-4 accent-zinc-900 dark:accent-zinc-100"
+                    disabled={busy || !shuffleOthers}
+                  />
+                </label>
+                <div className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  <span className="tabular-nums">种子：{formatSeed(shuffleSeed)}</span>
+                  <button
+                    type="button"
+                    className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50 dark:hover:bg-zinc-900"
+                    onClick={reshuffle}
+                    disabled={busy || !shuffleOthers || !canGenerate}
+                  >
+                    重新打乱
+                  </button>
+                </div>
+                {order || Object.keys(pins).length > 0 ? (
+                  <div className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                    <span>
+                      {order ? "已手动排列" : "自动排列"}
+                      {Object.keys(pins).length > 0 ? `，固定 ${Object.keys(pins).length} 张` : ""}
+                    </span>
+                    <button
+                      type="button"
+                      className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50 dark:hover:bg-zinc-900"
+                      onClick={() => {
+                        rearrangedRef.current = previewVersion > 0;
+                        setOrder(null);
+                        setPins({});
+                      }}
+                      disabled={busy}
+                    >
+                      恢复自动排列
+                    </button>
+                  </div>
+                ) : null}
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  自动预览
+                  <input
+                    type="checkbox"
+                    checked={autoPreview}
+                    onChange={(e) => setAutoPreview(e.target.checked)}
+                    name="autoPreview"
+                    className="h-4 w-4 accent-zinc-900 dark:accent-zinc-100"
+                    disabled={busy}
+                  />
+                </label>
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  预览长边(px)
                   <input
                     type="number"
                     min={512}
@@ -545,6 +2435,132 @@ export default function Home() {
                     disabled={busy}
                   />
                 </label>
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  解码缓存(MB)
+                  <input
+                    type="number"
+                    min={0}
+                    max={4096}
+                    step={64}
+                    name="cacheBudgetMb"
+                    value={cacheBudgetMb}
+                    onChange={(e) => setCacheBudgetMb(clamp(Number(e.target.value), 0, 4096))}
+                    className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                    disabled={busy}
+                  />
+                </label>
+              </div>
+            </div>
+
+            <div className="rounded-xl border border-zinc-200/70 bg-white/60 p-4 dark:border-zinc-800/70 dark:bg-zinc-950/30">
+              <div className="text-sm font-medium">形状拼图</div>
+              <div className="mt-1 text-xs text-zinc-600 dark:text-zinc-400">
+                {mask
+                  ? useMain
+                    ? "图片只铺在形状内部，主图占据形状中部的一块方格。"
+                    : "图片只铺在形状内部，其余部分留作背景。"
+                  : maskSource === "none"
+                    ? "照片铺满整个矩形画布。"
+                    : maskSource === "image"
+                      ? "请上传剪影图片：透明背景的 PNG，或白底黑色剪影。"
+                      : "请输入文字。"}
+              </div>
+              <div className="mt-3 grid gap-2">
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  形状
+                  <select
+                    value={maskSource}
+                    onChange={(e) => setMaskSource(e.target.value as MaskSource)}
+                    name="maskSource"
+                    className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                    disabled={busy}
+                  >
+                    {MASK_SOURCES.map((m) => (
+                      <option key={m.id} value={m.id}>
+                        {m.label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                {maskSource === "text" ? (
+                  <>
+                    <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                      文字
+                      <input
+                        type="text"
+                        value={maskText}
+                        onChange={(e) => setMaskText(e.target.value)}
+                        name="maskText"
+                        maxLength={40}
+                        className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                        disabled={busy}
+                      />
+                    </label>
+                    <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                      字体
+                      <select
+                        value={maskFont}
+                        onChange={(e) => setMaskFont(e.target.value)}
+                        name="maskFont"
+                        className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+                        disabled={busy}
+                      >
+                        {MASK_FONTS.map((f) => (
+                          <option key={f.id} value={f.id}>
+                            {f.label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                      粗体
+                      <input
+                        type="checkbox"
+                        checked={maskBold}
+                        onChange={(e) => setMaskBold(e.target.checked)}
+                        name="maskBold"
+                        className="h-4 w-4 accent-zinc-900 dark:accent-zinc-100"
+                        disabled={busy}
+                      />
+                    </label>
+                  </>
+                ) : null}
+                {maskSource === "image" ? (
+                  <div className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                    <span>{maskImage ? `剪影：${maskImage.width}×${maskImage.height}` : "未上传剪影"}</span>
+                    <button
+                      type="button"
+                      className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50 dark:hover:bg-zinc-900"
+                      onClick={() => maskInputRef.current?.click()}
+                      disabled={busy}
+                    >
+                      上传剪影
+                    </button>
+                    <input
+                      ref={maskInputRef}
+                      type="file"
+                      accept="image/*"
+                      className="hidden"
+                      onChange={(e) => void handleMaskInput(e)}
+                    />
+                  </div>
+                ) : null}
+                <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+                  透明背景
+                  <input
+                    type="checkbox"
+                    checked={transparentBackground}
+                    onChange={(e) => setTransparentBackground(e.target.checked)}
+                    name="transparentBackground"
+                    className="h-4 w-4 accent-zinc-900 dark:accent-zinc-100"
+                    disabled={busy}
+                  />
+                </label>
+                {transparentBackground && !transparentOutput ? (
+                  <div className="text-xs text-zinc-600 dark:text-zinc-400">
+                    {exportInfo?.label ?? "当前格式"} 不支持透明，将使用背景色填充。
+                  </div>
+                ) : null}
               </div>
             </div>
           </div>
@@ -559,6 +2575,54 @@ export default function Home() {
               >
                 导出高清
               </button>
+              <button
+                type="button"
+                className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm font-medium hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-800 dark:bg-zinc-950 dark:hover:bg-zinc-900"
+                onClick={exportManifest}
+                disabled={!canExport || busy}
+              >
+                导出布局清单
+              </button>
+              <button
+                type="button"
+                className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm font-medium hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-800 dark:bg-zinc-950 dark:hover:bg-zinc-900"
+                onClick={() => manifestInputRef.current?.click()}
+                disabled={busy || images.length === 0}
+                title="先上传清单对应的照片，再导入清单还原布局"
+              >
+                导入布局清单
+              </button>
+              <input
+                ref={manifestInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleManifestInput}
+              />
+              <button
+                type="button"
+                className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm font-medium hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-800 dark:bg-zinc-950 dark:hover:bg-zinc-900"
+                onClick={() => void saveProjectFile()}
+                disabled={busy || images.length === 0}
+                title="打包原图、设置与预览，可发给他人在另一台电脑上打开"
+              >
+                保存项目文件
+              </button>
+              <button
+                type="button"
+                className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-sm font-medium hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-800 dark:bg-zinc-950 dark:hover:bg-zinc-900"
+                onClick={() => projectFileInputRef.current?.click()}
+                disabled={busy}
+              >
+                打开项目文件
+              </button>
+              <input
+                ref={projectFileInputRef}
+                type="file"
+                accept={`.${PROJECT_FILE_EXTENSION},application/zip`}
+                className="hidden"
+                onChange={handleProjectFileInput}
+              />
               {useMain ? (
                 <button
                   type="button"
@@ -596,48 +2660,179 @@ export default function Home() {
           </div>
 
           <div className="mt-6">
-            {useMain ? (
-              <>
-                <div className="text-sm font-medium">选择主图（点击设置）</div>
-                <div className="mt-2 grid grid-cols-4 gap-2 sm:grid-cols-6 lg:grid-cols-8">
-                  {images.slice(0, 240).map((item) => {
-                    const selected = item.id === mainItem?.id;
-                    return (
+            <div className="text-sm font-medium">
+              {useMain ? "选择主图（点击设置）" : "图片列表"}
+            </div>
+            <div className="mt-1 text-xs text-zinc-600 dark:text-zinc-400">
+              {useMain
+                ? "点击缩略图右下角的 ✎ 可手动调整裁切焦点与缩放；左下角的「固」可把图片固定到主图的上 / 右 / 下 / 左侧。"
+                : "已关闭中心主图：所有图片会按全图网格自动拼图。点击缩略图可手动调整裁切焦点与缩放。"}
+            </div>
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-zinc-600 dark:text-zinc-400">
+              拍摄日期
+              <input
+                type="date"
+                value={dateFrom}
+                max={dateTo || undefined}
+                onChange={(e) => setDateFrom(e.target.value)}
+                name="dateFrom"
+                aria-label="起始日期"
+                className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+              />
+              至
+              <input
+                type="date"
+                value={dateTo}
+                min={dateFrom || undefined}
+                onChange={(e) => setDateTo(e.target.value)}
+                name="dateTo"
+                aria-label="结束日期"
+                className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50"
+              />
+              {dateFrom || dateTo ? (
+                <>
+                  <span>
+                    显示 {visibleImages.length} / {images.length} 张
+                  </span>
+                  <button
+                    type="button"
+                    className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50 dark:hover:bg-zinc-900"
+                    onClick={() => {
+                      setDateFrom("");
+                      setDateTo("");
+                    }}
+                  >
+                    清除
+                  </button>
+                </>
+              ) : null}
+            </div>
+            {duplicateGroups.length > 0 ? (
+              <div className="mt-2 rounded-xl border border-zinc-200/70 bg-white/60 p-3 dark:border-zinc-800/70 dark:bg-zinc-950/30">
+                <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-zinc-600 dark:text-zinc-400">
+                  <span>
+                    发现 {duplicateGroups.length} 组重复或相似照片（多出 {duplicateExtras} 张）
+                  </span>
+                  <span className="flex gap-2">
+                    <button
+                      type="button"
+                      className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50 dark:hover:bg-zinc-900"
+                      onClick={() => keepOnePerDuplicateGroup("sharpest")}
+                      disabled={busy}
+                    >
+                      每组保留最清晰
+                    </button>
+                    <button
+                      type="button"
+                      className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-zinc-900 hover:bg-zinc-50 disabled:opacity-50 dark:border-zinc-800 dark:bg-zinc-950 dark:text-zinc-50 dark:hover:bg-zinc-900"
+                      onClick={() => keepOnePerDuplicateGroup("largest")}
+                      disabled={busy}
+                    >
+                      每组保留最大
+                    </button>
+                  </span>
+                </div>
+                <div className="mt-2 grid gap-2">
+                  {duplicateGroups.slice(0, MAX_LISTED_DUPLICATE_GROUPS).map((group) => (
+                    <div key={group.ids[0]} className="flex items-center gap-2 text-xs text-zinc-600 dark:text-zinc-400">
+                      <span className="w-10 shrink-0">{group.exact ? "相同" : "相似"}</span>
+                      {group.ids.map((id) => {
+                        const item = images.find((i) => i.id === id);
+                        return item ? (
+                          // eslint-disable-next-line @next/next/no-img-element
+                          <img
+                            key={id}
+                            src={item.url}
+                            alt={item.file.name}
+                            title={imageTitle(item)}
+                            className="h-10 w-10 rounded object-cover"
+                            loading="lazy"
+                          />
+                        ) : null;
+                      })}
+                    </div>
+                  ))}
+                  {duplicateGroups.length > MAX_LISTED_DUPLICATE_GROUPS ? (
+                    <div className="text-xs text-zinc-600 dark:text-zinc-400">
+                      另有 {duplicateGroups.length - MAX_LISTED_DUPLICATE_GROUPS} 组未列出
+                    </div>
+                  ) : null}
+                </div>
+              </div>
+            ) : null}
+            <div className="mt-2 grid grid-cols-4 gap-2 sm:grid-cols-6 lg:grid-cols-8">
+              {visibleImages.slice(0, 240).map((item) => {
+                const selected = useMain && item.id === mainItem?.id;
+                return (
+                  <div key={item.id} className="relative">
+                    <button
+                      type="button"
+                      className={`relative block aspect-square w-full overflow-hidden rounded-lg border ${selected ? "border-zinc-950 ring-2 ring-zinc-950 dark:border-zinc-100 dark:ring-zinc-100" : "border-zinc-200 dark:border-zinc-800"} bg-zinc-100 dark:bg-zinc-900`}
+                      onClick={() => (useMain ? setMainId(item.id) : setEditingId(item.id))}
+                      disabled={busy}
+                      title={imageTitle(item)}
+                    >
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img
+                        src={item.url}
+                        alt={item.file.name}
+                        className="h-full w-full object-cover"
+                        style={
+                          item.focalPoint
+                            ? { objectPosition: `${item.focalPoint.x * 100}% ${item.focalPoint.y * 100}%` }
+                            : undefined
+                        }
+                        loading="lazy"
+                      />
+                      {selected || item.id === secondMainItem?.id ? (
+                        <div className="absolute left-1 top-1 rounded-full bg-zinc-950/90 px-2 py-0.5 text-[10px] font-medium text-white dark:bg-zinc-100/90 dark:text-zinc-950">
+                          {selected ? "主图" : "主图 2"}
+                        </div>
+                      ) : null}
+                    </button>
+                    {layoutMode === "grid" && !selected && item.id !== secondMainItem?.id ? (
                       <button
-                        key={item.id}
                         type="button"
-                        className={`relative aspect-square overflow-hidden rounded-lg border ${selected ? "border-zinc-950 ring-2 ring-zinc-950 dark:border-zinc-100 dark:ring-zinc-100" : "border-zinc-200 dark:border-zinc-800"} bg-zinc-100 dark:bg-zinc-900`}
-                        onClick={() => setMainId(item.id)}
+                        className={`absolute right-1 top-1 rounded-full px-1.5 py-0.5 text-[10px] font-medium ${(item.weight ?? 1) > 1 ? "bg-amber-400 text-zinc-950" : "bg-white/90 text-zinc-900 dark:bg-zinc-950/90 dark:text-zinc-50"}`}
+                        onClick={() => cycleWeight(item.id)}
                         disabled={busy}
-                        title={item.file.name}
+                        title="精选：放大这张图片的格子（依次切换 ×1 / ×2 / ×3）"
+                        aria-label={`设置 ${item.file.name} 的格子大小`}
                       >
-                        {/* eslint-disable-next-line @next/next/no-img-element */}
-                        <img
-                          src={item.url}
-                          alt={item.file.name}
-                          className="h-full w-full object-cover"
-                          loading="lazy"
-                        />
-                        {selected ? (
-                          <div className="absolute left-1 top-1 rounded-full bg-zinc-950/90 px-2 py-0.5 text-[10px] font-medium text-white dark:bg-zinc-100/90 dark:text-zinc-950">
-                            主图
-                          </div>
-                        ) : null}
+                        ×{item.weight ?? 1}
                       </button>
-                    );
-                  })}
-                </div>
-                {images.length > 240 ? (
-                  <div className="mt-2 text-xs text-zinc-600 dark:text-zinc-400">
-                    为保证性能，仅展示前 240 张缩略图（已上传 {images.length} 张仍会全部参与生成）
+                    ) : null}
+                    {useMain && !selected && item.id !== secondMainItem?.id ? (
+                      <button
+                        type="button"
+                        className={`absolute bottom-1 left-1 rounded-full px-1.5 py-0.5 text-[10px] font-medium ${pins[item.id] ? "bg-amber-400 text-zinc-950" : "bg-white/90 text-zinc-900 dark:bg-zinc-950/90 dark:text-zinc-50"}`}
+                        onClick={() => cyclePin(item.id)}
+                        disabled={busy}
+                        title="固定到主图四周的某一侧（依次切换：上 / 右 / 下 / 左 / 不固定）"
+                        aria-label={`固定 ${item.file.name} 的区域`}
+                      >
+                        {pins[item.id] ? REGION_LABELS[pins[item.id]] : "固"}
+                      </button>
+                    ) : null}
+                    <button
+                      type="button"
+                      className={`absolute bottom-1 right-1 rounded-full px-1.5 py-0.5 text-[10px] font-medium ${item.focalPoint ? "bg-amber-400 text-zinc-950" : "bg-white/90 text-zinc-900 dark:bg-zinc-950/90 dark:text-zinc-50"}`}
+                      onClick={() => setEditingId(item.id)}
+                      disabled={busy}
+                      title="调整裁切焦点"
+                      aria-label={`调整 ${item.file.name} 的裁切焦点`}
+                    >
+                      ✎
+                    </button>
                   </div>
-                ) : null}
-              </>
-            ) : (
-              <div className="text-xs text-zinc-600 dark:text-zinc-400">
-                已关闭中心主图：所有图片会按全图网格自动拼图。
+                );
+              })}
+            </div>
+            {visibleImages.length > 240 ? (
+              <div className="mt-2 text-xs text-zinc-600 dark:text-zinc-400">
+                为保证性能，仅展示前 240 张缩略图（已上传 {images.length} 张仍会全部参与生成）
               </div>
-            )}
+            ) : null}
           </div>
         </section>
 
@@ -646,18 +2841,52 @@ export default function Home() {
             <div>
               <div className="text-sm font-medium">预览</div>
               <div className="text-xs text-zinc-600 dark:text-zinc-400">
-                预览画布：{previewSize}×{previewSize}px（导出：{exportSize}×{exportSize}px）
+                预览画布：{previewDims.width}×{previewDims.height}px（导出：{fileDims.width}×{fileDims.height}px）
               </div>
             </div>
             <div className="text-xs text-zinc-600 dark:text-zinc-400">
               gap: {scaledGap(previewSize)}px
             </div>
           </div>
-          <div className="mt-3 overflow-hidden rounded-xl border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-950">
-            <canvas ref={canvasRef} className="h-auto w-full" />
+          <div className="relative mt-3 overflow-hidden rounded-xl border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-950">
+            <canvas
+              ref={canvasRef}
+              className={`h-auto w-full touch-none ${previewVersion > 0 && !busy ? (drag ? "cursor-grabbing" : "cursor-grab") : ""}`}
+              style={
+                transparentOutput
+                  ? {
+                      // Checkerboard so transparent areas read as transparent.
+                      backgroundImage: "repeating-conic-gradient(#e4e4e7 0% 25%, #ffffff 0% 50%)",
+                      backgroundSize: "16px 16px",
+                    }
+                  : undefined
+              }
+              onPointerDown={handleCanvasPointerDown}
+              onPointerMove={handleCanvasPointerMove}
+              onPointerUp={handleCanvasPointerUp}
+              onPointerCancel={() => setDrag(null)}
+            />
+            {drag
+              ? [drag.from, drag.over].map((rect, idx) =>
+                  rect ? (
+                    <div
+                      key={idx}
+                      className={`pointer-events-none absolute border-2 ${idx === 0 ? "border-dashed border-zinc-950 bg-white/30 dark:border-zinc-100" : "border-amber-400 bg-amber-400/20"}`}
+                      style={{
+                        left: `${(rect.x / drag.planWidth) * 100}%`,
+                        top: `${(rect.y / drag.planHeight) * 100}%`,
+                        width: `${(rect.width / drag.planWidth) * 100}%`,
+                        height: `${(rect.height / drag.planHeight) * 100}%`,
+                      }}
+                    />
+                  ) : null,
+                )
+              : null}
           </div>
           <div className="mt-3 text-xs text-zinc-600 dark:text-zinc-400">
-            绘制策略：所有图片采用「等比填充（cover）」以尽量保留长宽比；必要时会从中心轻微裁切。
+            绘制策略：所有图片采用「等比填充（cover）」以尽量保留长宽比；必要时会轻微裁切
+            {cropAnchor === "saliency" ? "（围绕自动识别的主体）" : "（从中心）"}。
+            在预览上拖动一张图片到另一张上可交换位置{useMain ? "（拖到主图上则设为主图）" : ""}。
           </div>
         </section>
       </main>
@@ -667,6 +2896,16 @@ export default function Home() {
           本项目为纯前端生成（Canvas），适合直接部署到 Vercel 等平台。建议先生成预览，再导出高清。
         </div>
       </footer>
+
+      {editingItem ? (
+        <FocalPointEditor
+          key={editingItem.id}
+          item={editingItem}
+          cellAspect={editingCellAspect}
+          onSave={saveFocus}
+          onClose={() => setEditingId(null)}
+        />
+      ) : null}
     </div>
   );
 }
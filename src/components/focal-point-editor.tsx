@@ -0,0 +1,172 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef, useState, type PointerEvent } from "react";
+import { computeCoverCrop, MAX_ZOOM, type CollageImageItem, type FocalPoint } from "@/lib/collage";
+
+const PREVIEW_LONG_SIDE = 240;
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+export function FocalPointEditor(props: {
+  item: CollageImageItem & { url: string };
+  /** width / height of the cell the image lands in; null when it is not placed yet. */
+  cellAspect: number | null;
+  onSave: (focalPoint: FocalPoint | undefined, zoom: number | undefined) => void;
+  onClose: () => void;
+}) {
+  const { item, cellAspect, onSave, onClose } = props;
+  const [focus, setFocus] = useState<FocalPoint>(item.focalPoint ?? { x: 0.5, y: 0.5 });
+  const [zoom, setZoom] = useState(item.zoom ?? 1);
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [dragging, setDragging] = useState(false);
+
+  const imgRef = useRef<HTMLImageElement | null>(null);
+  const previewRef = useRef<HTMLCanvasElement | null>(null);
+
+  const aspect = cellAspect && Number.isFinite(cellAspect) && cellAspect > 0 ? cellAspect : 1;
+  const crop = useMemo(
+    () => (natural ? computeCoverCrop(natural.width, natural.height, aspect, 1, focus, zoom) : null),
+    [aspect, focus, natural, zoom],
+  );
+
+  useEffect(() => {
+    const canvas = previewRef.current;
+    const img = imgRef.current;
+    if (!canvas || !img || !natural || !crop) return;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    canvas.width = Math.round(aspect >= 1 ? PREVIEW_LONG_SIDE : PREVIEW_LONG_SIDE * aspect);
+    canvas.height = Math.round(aspect >= 1 ? PREVIEW_LONG_SIDE / aspect : PREVIEW_LONG_SIDE);
+    ctx.drawImage(img, crop.x, crop.y, crop.width, crop.height, 0, 0, canvas.width, canvas.height);
+  }, [aspect, crop, natural]);
+
+  const updateFromPointer = useCallback((e: PointerEvent<HTMLDivElement>) => {
+    const box = e.currentTarget.getBoundingClientRect();
+    if (box.width <= 0 || box.height <= 0) return;
+    setFocus({
+      x: clamp01((e.clientX - box.left) / box.width),
+      y: clamp01((e.clientY - box.top) / box.height),
+    });
+  }, []);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-zinc-950/60 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label="调整裁切焦点"
+      onClick={onClose}
+    >
+      <div
+        className="max-h-full w-full max-w-3xl overflow-auto rounded-2xl border border-zinc-200/70 bg-white p-4 text-zinc-950 shadow-xl dark:border-zinc-800/70 dark:bg-zinc-950 dark:text-zinc-50"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <div className="text-sm font-medium">调整裁切焦点</div>
+            <div className="truncate text-xs text-zinc-600 dark:text-zinc-400">{item.file.name}</div>
+          </div>
+          <button
+            type="button"
+            className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-xs hover:bg-zinc-50 dark:border-zinc-800 dark:bg-zinc-950 dark:hover:bg-zinc-900"
+            onClick={onClose}
+          >
+            关闭
+          </button>
+        </div>
+
+        <div className="mt-3 grid gap-4 sm:grid-cols-[1fr_auto]">
+          <div
+            className="relative cursor-crosshair touch-none select-none overflow-hidden rounded-lg bg-zinc-100 dark:bg-zinc-900"
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              setDragging(true);
+              updateFromPointer(e);
+            }}
+            onPointerMove={(e) => {
+              if (dragging) updateFromPointer(e);
+            }}
+            onPointerUp={() => setDragging(false)}
+            onPointerCancel={() => setDragging(false)}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img
+              ref={imgRef}
+              src={item.url}
+              alt={item.file.name}
+              className="block h-auto w-full"
+              draggable={false}
+              onLoad={(e) =>
+                setNatural({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })
+              }
+            />
+            {natural && crop ? (
+              <div
+                className="pointer-events-none absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]"
+                style={{
+                  left: `${(crop.x / natural.width) * 100}%`,
+                  top: `${(crop.y / natural.height) * 100}%`,
+                  width: `${(crop.width / natural.width) * 100}%`,
+                  height: `${(crop.height / natural.height) * 100}%`,
+                }}
+              />
+            ) : null}
+            <div
+              className="pointer-events-none absolute top-0 h-full w-px bg-white/90 mix-blend-difference"
+              style={{ left: `${focus.x * 100}%` }}
+            />
+            <div
+              className="pointer-events-none absolute left-0 h-px w-full bg-white/90 mix-blend-difference"
+              style={{ top: `${focus.y * 100}%` }}
+            />
+          </div>
+
+          <div className="flex flex-col gap-3">
+            <div className="text-xs text-zinc-600 dark:text-zinc-400">
+              {cellAspect ? `所在格子比例 ${aspect.toFixed(2)}:1` : "尚未分配格子，按 1:1 预览"}
+            </div>
+            <canvas
+              ref={previewRef}
+              className="rounded-lg border border-zinc-200 dark:border-zinc-800"
+              style={{ width: aspect >= 1 ? PREVIEW_LONG_SIDE : PREVIEW_LONG_SIDE * aspect }}
+            />
+            <label className="flex items-center justify-between gap-3 text-xs text-zinc-600 dark:text-zinc-400">
+              缩放 {zoom.toFixed(2)}×
+              <input
+                type="range"
+                min={1}
+                max={MAX_ZOOM}
+                step={0.05}
+                name="zoom"
+                value={zoom}
+                onChange={(e) => setZoom(Number(e.target.value))}
+                className="w-32 accent-zinc-900 dark:accent-zinc-100"
+              />
+            </label>
+            <div className="text-xs tabular-nums text-zinc-600 dark:text-zinc-400">
+              焦点：{Math.round(focus.x * 100)}%, {Math.round(focus.y * 100)}%
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                className="rounded-xl border border-zinc-200 bg-white px-3 py-2 text-xs font-medium hover:bg-zinc-50 dark:border-zinc-800 dark:bg-zinc-950 dark:hover:bg-zinc-900"
+                onClick={() => onSave(undefined, undefined)}
+              >
+                恢复自动
+              </button>
+              <button
+                type="button"
+                className="rounded-xl bg-zinc-950 px-3 py-2 text-xs font-medium text-white hover:bg-zinc-800 dark:bg-zinc-100 dark:text-zinc-950 dark:hover:bg-white"
+                onClick={() => onSave(focus, zoom > 1 ? zoom : undefined)}
+              >
+                保存
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
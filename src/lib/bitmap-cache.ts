@@ -0,0 +1,134 @@
+import type { DecodedImage } from "./collage";
+
+export const DEFAULT_BITMAP_CACHE_BUDGET = 256 * 1024 * 1024;
+
+// A cached copy slightly smaller than requested is still sharp enough; this lets small
+// setting tweaks (a few % bigger cells) reuse what is already decoded.
+const UNDERSIZE_TOLERANCE = 0.9;
+
+type Entry = {
+  id: string;
+  decoded: DecodedImage;
+  /** Decoded without resizing: satisfies any request for this id. */
+  full: boolean;
+  bytes: number;
+  refs: number;
+  /** Dropped from the cache while in use; close once the last user releases it. */
+  detached: boolean;
+};
+
+export type BitmapCache = {
+  /**
+   * Returns a cached decode of `id` at least `size` large (null: full resolution), or null on a
+   * miss. The caller must `close()` the result; that releases it rather than destroying it.
+   */
+  acquire: (id: string, size: { width: number; height: number } | null) => DecodedImage | null;
+  /** Takes ownership of `decoded` and returns a handle to use (and `close()`) instead. */
+  insert: (id: string, decoded: DecodedImage, full: boolean) => DecodedImage;
+  clear: (ids?: Iterable<string>) => void;
+  setBudget: (bytes: number) => void;
+  stats: () => { entries: number; bytes: number; budget: number };
+};
+
+/** Size-aware LRU of decoded bitmaps keyed by image id and resolution. */
+export function createBitmapCache(budgetBytes = DEFAULT_BITMAP_CACHE_BUDGET): BitmapCache {
+  let budget = Math.max(0, budgetBytes);
+  let used = 0;
+  // Map iteration order doubles as recency order: oldest first.
+  const lru = new Map<Entry, true>();
+  const byId = new Map<string, Set<Entry>>();
+
+  const destroy = (entry: Entry) => {
+    entry.decoded.close?.();
+  };
+
+  const remove = (entry: Entry) => {
+    if (!lru.delete(entry)) return;
+    used -= entry.bytes;
+    const set = byId.get(entry.id);
+    set?.delete(entry);
+    if (set && set.size === 0) byId.delete(entry.id);
+    if (entry.refs > 0) entry.detached = true;
+    else destroy(entry);
+  };
+
+  const evict = () => {
+    for (const entry of lru.keys()) {
+      if (used <= budget) break;
+      remove(entry);
+    }
+  };
+
+  const handle = (entry: Entry): DecodedImage => {
+    entry.refs += 1;
+    let released = false;
+    return {
+      source: entry.decoded.source,
+      width: entry.decoded.width,
+      height: entry.decoded.height,
+      close: () => {
+        if (released) return;
+        released = true;
+        entry.refs -= 1;
+        if (entry.refs === 0 && entry.detached) destroy(entry);
+      },
+    };
+  };
+
+  return {
+    acquire(id, size) {
+      const entries = byId.get(id);
+      if (!entries) return null;
+      let best: Entry | null = null;
+      for (const entry of entries) {
+        const fits =
+          entry.full ||
+          (size != null &&
+            entry.decoded.width >= size.width * UNDERSIZE_TOLERANCE &&
+            entry.decoded.height >= size.height * UNDERSIZE_TOLERANCE);
+        if (fits && (!best || entry.bytes < best.bytes)) best = entry;
+      }
+      if (!best) return null;
+      lru.delete(best);
+      lru.set(best, true);
+      return handle(best);
+    },
+
+    insert(id, decoded, full) {
+      const bytes = Math.max(1, decoded.width * decoded.height * 4);
+      // Too big to ever fit: hand it straight back, uncached.
+      if (bytes > budget) return decoded;
+      const entry: Entry = { id, decoded, full, bytes, refs: 0, detached: false };
+      lru.set(entry, true);
+      let set = byId.get(id);
+      if (!set) {
+        set = new Set();
+        byId.set(id, set);
+      }
+      set.add(entry);
+      used += bytes;
+      const result = handle(entry);
+      evict();
+      return result;
+    },
+
+    clear(ids) {
+      if (!ids) {
+        for (const entry of [...lru.keys()]) remove(entry);
+        return;
+      }
+      for (const id of ids) {
+        for (const entry of [...(byId.get(id) ?? [])]) remove(entry);
+      }
+    },
+
+    setBudget(bytes) {
+      budget = Math.max(0, bytes);
+      evict();
+    },
+
+    stats() {
+      return { entries: lru.size, bytes: used, budget };
+    },
+  };
+}
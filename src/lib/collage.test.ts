@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeCollageLayout,
+  placementAt,
+  planCollage,
+  remapArrangement,
+  type CollageImageItem,
+  type CollagePlan,
+  type CollageRegionName,
+  type RenderCollageOptions,
+} from "./collage";
+import { shapeMask } from "./mask";
+
+function photos(count: number): CollageImageItem[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `p${i}`, file: new File([], `p${i}.jpg`) }));
+}
+
+const OPTIONS: RenderCollageOptions = {
+  width: 1200,
+  height: 800,
+  mainRatio: 0.5,
+  gap: 4,
+  background: "#ffffff",
+  shuffleOthers: false,
+  useMain: true,
+};
+
+// p0 is the main image; p1–p12 fill the ring: top 0–3, right 4–5, bottom 6–9, left 10–11.
+const REGIONS = computeCollageLayout({ ...OPTIONS, othersCount: 12 }).ringRegions;
+
+function ring(plan: CollagePlan): string[] {
+  return plan.placements.filter((p) => p.role === "cell").map((p) => p.item.id);
+}
+
+function regionOf(plan: CollagePlan, id: string): CollageRegionName | undefined {
+  const idx = ring(plan).indexOf(id);
+  return REGIONS.find((r) => idx >= r.start && idx < r.start + r.count)?.name;
+}
+
+function plan(options: Partial<RenderCollageOptions>, images = photos(13)): CollagePlan {
+  return planCollage({ images, mainId: "p0", options: { ...OPTIONS, ...options } });
+}
+
+describe("planCollage ring order", () => {
+  it("fills the ring in input order by default", () => {
+    expect(REGIONS.map((r) => [r.name, r.count])).toEqual([
+      ["top", 4],
+      ["right", 2],
+      ["bottom", 4],
+      ["left", 2],
+    ]);
+    expect(ring(plan({}))).toEqual(photos(13).slice(1).map((p) => p.id));
+  });
+
+  it("follows a manual order, skipping missing ids and appending new images", () => {
+    const order = ["p3", "gone", "p0", "p1", "also-gone", "p12"];
+    expect(ring(plan({ order }))).toEqual(["p3", "p1", "p12", "p2", "p4", "p5", "p6", "p7", "p8", "p9", "p10", "p11"]);
+  });
+
+  it("keeps the manual order over shuffling", () => {
+    const order = ["p12", "p11", "p10"];
+    expect(ring(plan({ order, shuffleOthers: true, seed: 7 })).slice(0, 3)).toEqual(order);
+  });
+});
+
+describe("planCollage pins", () => {
+  it("moves a pinned image into its region by swapping with a tile there", () => {
+    const pinned = plan({ pins: { p1: "left" } });
+    expect(regionOf(pinned, "p1")).toBe("left");
+    expect(ring(pinned)).toEqual(["p11", "p2", "p3", "p4", "p5", "p6", "p7", "p8", "p9", "p10", "p1", "p12"]);
+  });
+
+  it("leaves pins beyond a region's capacity where they are", () => {
+    const pinned = plan({ pins: { p1: "right", p2: "right", p3: "right" } });
+    expect(regionOf(pinned, "p1")).toBe("right");
+    expect(regionOf(pinned, "p2")).toBe("right");
+    expect(regionOf(pinned, "p3")).toBe("top");
+    // Every photo is still placed exactly once.
+    expect([...ring(pinned)].sort()).toEqual(photos(13).slice(1).map((p) => p.id).sort());
+  });
+
+  it("settles pins that point at each other's regions", () => {
+    const pinned = plan({ pins: { p1: "right", p5: "top", p7: "left", p11: "bottom" } });
+    expect(regionOf(pinned, "p1")).toBe("right");
+    expect(regionOf(pinned, "p5")).toBe("top");
+    expect(regionOf(pinned, "p7")).toBe("left");
+    expect(regionOf(pinned, "p11")).toBe("bottom");
+  });
+
+  it("ignores pins for images that aren't in the ring", () => {
+    expect(ring(plan({ pins: { p0: "left", gone: "top" } }))).toEqual(ring(plan({})));
+  });
+});
+
+describe("remapArrangement", () => {
+  const ids = new Map([
+    ["a", "A"],
+    ["b", "B"],
+  ]);
+
+  it("rewrites ids and drops the ones it can't map", () => {
+    expect(
+      remapArrangement({ order: ["a", "x", "b"], pins: { a: "top", x: "left", b: "right" }, secondMainId: "x" }, ids),
+    ).toEqual({ order: ["A", "B"], pins: { A: "top", B: "right" }, secondMainId: undefined });
+    expect(remapArrangement({ secondMainId: "b" }, ids).secondMainId).toBe("B");
+  });
+
+  it("keeps a missing order or pin set missing", () => {
+    expect(remapArrangement({}, ids)).toEqual({ order: undefined, pins: undefined, secondMainId: undefined });
+  });
+});
+
+describe("placementAt", () => {
+  it("finds the tile under a point and nothing in the gaps", () => {
+    const full = plan({});
+    expect(placementAt(full, 10, 10)?.item.id).toBe("p1");
+    expect(placementAt(full, 600, 400)?.role).toBe("main");
+    // p1 spans x 0–297, p2 starts at 301.
+    expect(placementAt(full, 299, 10)).toBeNull();
+    expect(placementAt(full, 297, 10)).toBeNull();
+    expect(placementAt(full, 301, 10)?.item.id).toBe("p2");
+    expect(placementAt(full, -1, 10)).toBeNull();
+    expect(placementAt(full, 1200, 10)).toBeNull();
+  });
+
+  it("picks the topmost (last drawn) of overlapping placements", () => {
+    const [under, over] = photos(2);
+    const overlapping: CollagePlan = {
+      width: 100,
+      height: 100,
+      placements: [
+        { item: under, rect: { x: 0, y: 0, width: 60, height: 60 }, role: "cell" },
+        { item: over, rect: { x: 40, y: 40, width: 60, height: 60 }, role: "main" },
+      ],
+    };
+    expect(placementAt(overlapping, 50, 50)?.item).toBe(over);
+    expect(placementAt(overlapping, 20, 20)?.item).toBe(under);
+    expect(placementAt(overlapping, 80, 20)).toBeNull();
+  });
+});
+
+describe("planCollage with a shape mask", () => {
+  const TOO_SMALL = "形状放不下这么多照片：请减少照片、缩小间距，或换一个更饱满的形状。";
+
+  it("fills the shape around the main image", () => {
+    const shaped = plan({ mask: shapeMask("heart") });
+    const main = shaped.placements.find((p) => p.role === "main");
+    expect(main?.item.id).toBe("p0");
+    expect(ring(shaped)).toHaveLength(12);
+    expect(shaped.placements.every((p) => p.rect.x >= 0 && p.rect.x + p.rect.width <= OPTIONS.width)).toBe(true);
+  });
+
+  it("fills the shape without a main image", () => {
+    expect(ring(plan({ mask: shapeMask("star"), useMain: false }))).toEqual(photos(13).map((p) => p.id));
+  });
+
+  it("refuses to drop photos that don't fit the shape", () => {
+    // Even with the gap dropped, a 64px star holds well under 2000 one-pixel cells.
+    const tiny = { width: 64, height: 64, gap: 8, mask: shapeMask("star") };
+    expect(() => plan(tiny, photos(2000))).toThrow(TOO_SMALL);
+    expect(() => plan({ ...tiny, useMain: false }, photos(2000))).toThrow(TOO_SMALL);
+    expect(() => plan({ ...tiny, useMain: false }, photos(3))).not.toThrow();
+  });
+});
@@ -1,5 +1,48 @@
+import type { BitmapCache } from "./bitmap-cache";
+import { formatCaptureDate, readImageMetadata, type ImageMetadata } from "./exif";
+import { layoutMaskedGrid, type CollageMask } from "./mask";
+import {
+  assignMosaicTiles,
+  getTileColor,
+  mosaicGrid,
+  targetColors,
+  targetSampleSize,
+  TILE_ANALYSIS_SIDE,
+  type CollageMosaicOptions,
+  type MosaicColor,
+} from "./mosaic";
+import {
+  COLOR_ANALYSIS_SIDE,
+  extractImageColors,
+  hueOrderKey,
+  paletteDistance,
+  type CollageImageColors,
+} from "./palette";
+import { getFocalPoint } from "./saliency";
+
 export type Rect = { x: number; y: number; width: number; height: number };
 
+/** Rendering works on a regular canvas or, inside a worker, an OffscreenCanvas. */
+export type CollageCanvas = HTMLCanvasElement | OffscreenCanvas;
+export type CollageContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/** Normalized point inside an image: {0, 0} is the top-left corner, {1, 1} the bottom-right. */
+export type FocalPoint = { x: number; y: number };
+
+/**
+ * Where the cover crop is anchored:
+ * - "center": crop evenly from both sides.
+ * - "saliency": keep the image's detected subject (edge energy) in view.
+ */
+export type CollageCropAnchor = "center" | "saliency";
+
+/**
+ * Color-sorted ring (replaces shuffling and aspect assignment):
+ * - "hue": a hue gradient running clockwise around the main image from the top-left corner.
+ * - "palette": the images whose colors best match the main image's sit closest to it.
+ */
+export type CollageColorOrder = "hue" | "palette";
+
 export type CollageProgressPhase = "layout" | "decode" | "render" | "export";
 
 export type CollageProgress = {
@@ -9,36 +52,162 @@ export type CollageProgress = {
   message?: string;
 };
 
+/**
+ * How the central main rect is shaped:
+ * - "canvas": same aspect ratio as the canvas (each side scaled by mainRatio); square canvases get a square.
+ * - "image": keeps the main image's own aspect ratio at the same area as "canvas".
+ */
+export type CollageMainFit = "canvas" | "image";
+
+/**
+ * Where the main rect sits, together with a `CollageMainAnchor`:
+ * - "center": centered with four even bands (the anchor is ignored).
+ * - "thirds" / "golden": centered on the rule-of-thirds / golden-ratio line(s) toward the anchor.
+ * - "flush": against the anchor's corner or edge, leaving an L-shaped (corner) or U-shaped ring.
+ * - "side": spans the full canvas height (left / right anchors) or width (top / bottom) on that side.
+ */
+export type CollageMainPlacement = "center" | "thirds" | "golden" | "flush" | "side";
+export type CollageMainAnchor =
+  | "top-left"
+  | "top"
+  | "top-right"
+  | "right"
+  | "bottom-right"
+  | "bottom"
+  | "bottom-left"
+  | "left";
+
+/**
+ * How cells inside a region are sized:
+ * - "grid": rows of near-square cells, images cropped to fit.
+ * - "justified": rows (or columns in tall regions) whose cell widths follow each image's aspect.
+ */
+export type CollageLayoutMode = "grid" | "justified";
+
 export type CollageLayoutOptions = {
-  size: number;
+  width: number;
+  height: number;
   mainRatio: number;
   gap: number;
   othersCount: number;
+  mainFit?: CollageMainFit;
+  /** Main image width / height; only used when mainFit is "image". */
+  mainAspect?: number;
+  mainPlacement?: CollageMainPlacement;
+  mainAnchor?: CollageMainAnchor;
+  mode?: CollageLayoutMode;
+  /** Aspect (width / height) of each ring image in order; required by the "justified" mode. */
+  ringAspects?: number[];
+  /** Feature weight of each ring image in order (see `CollageImageItem.weight`); "grid" mode only. */
+  ringWeights?: number[];
 };
 
+/** The four bands around the main image, in ring order. */
+export type CollageRegionName = "top" | "right" | "bottom" | "left";
+
 export type CollageLayout = {
-  size: number;
+  width: number;
+  height: number;
   gap: number;
   mainRect: Rect;
   ringCells: Rect[];
+  /** Which slice of `ringCells` each region holds. */
+  ringRegions: { name: CollageRegionName; start: number; count: number }[];
+};
+
+/** Print extras in pixels. With these set, the options' `width` / `height` are the trim size. */
+export type CollagePrintOptions = {
+  /** The background and the tiles touching the trim edge run this far past it. */
+  bleed: number;
+  /** Corner crop marks, `offset` away from the trim edge (at least the bleed) and `length` long. */
+  cropMarks?: { offset: number; length: number; lineWidth: number };
 };
 
 export type RenderCollageOptions = {
-  size: number;
+  width: number;
+  height: number;
   mainRatio: number;
   gap: number;
   background: string;
   shuffleOthers: boolean;
   useMain: boolean;
+  mainFit?: CollageMainFit;
+  mainPlacement?: CollageMainPlacement;
+  mainAnchor?: CollageMainAnchor;
+  layoutMode?: CollageLayoutMode;
+  cropAnchor?: CollageCropAnchor;
+  /** Match images to cells by aspect ratio instead of handing them out in list order. */
+  assignByAspect?: boolean;
+  /** Sort the ring by color; only applies with `useMain`, and a manual `order` wins over it. */
+  colorOrder?: CollageColorOrder;
+  /**
+   * Sort by capture time: clockwise around the main image from the top-left corner, or in reading
+   * order without one. Wins over `colorOrder`; undated photos go last.
+   */
+  timeOrder?: boolean;
+  /** Print each photo's capture date in the corner of its tile. */
+  dateCaptions?: boolean;
+  /** Seed for the shuffle PRNG; the same seed + image list always yields the same order. */
+  seed?: number;
+  /**
+   * Manual arrangement: image ids in cell order. Replaces shuffling and aspect assignment; images
+   * not listed follow in input order.
+   */
+  order?: string[];
+  /** Keeps images (by id) inside one ring region; only applies with `useMain`. */
+  pins?: Record<string, CollageRegionName>;
+  /** A second main image, sharing the main rect side by side with `mainId`. */
+  secondMainId?: string;
+  /**
+   * Shape mask: photos fill a grid of cells only where the mask is set (the main image, if
+   * any, takes a block of cells near the middle of the shape). Replaces the ring layout, so main
+   * placement, justified rows, weights and pins don't apply.
+   */
+  mask?: CollageMask;
+  /** Leave the background (gaps, the area outside a mask) transparent instead of filling it. */
+  transparent?: boolean;
+  /** Rebuild the main image as a photomosaic of the other photos; only applies with `useMain`. */
+  mosaic?: CollageMosaicOptions;
+  print?: CollagePrintOptions;
 };
 
 export type CollageImageItem = {
   id: string;
   file: File;
+  /** Manual crop anchor; takes precedence over the automatic crop anchor. */
+  focalPoint?: FocalPoint;
+  /** Extra zoom on top of the cover crop (1 = plain cover). */
+  zoom?: number;
+  /** Native pixel size (after EXIF orientation); filled in by `measureImage` when known. */
+  width?: number;
+  height?: number;
+  /**
+   * Featured images: weight n gets about n×n times the area of a regular tile in "grid" mode
+   * (1 = regular). Ignored by the "justified" mode, whose tiles are sized by aspect.
+   */
+  weight?: number;
+  /** Dominant colors and luminance, for `colorOrder`; filled in by `resolveImageSizes` if missing. */
+  colors?: CollageImageColors;
+  /** EXIF / XMP capture metadata; filled in by `resolveImageSizes` when sorting or captions need it. */
+  metadata?: ImageMetadata;
 };
 
-type RegionName = "top" | "right" | "bottom" | "left";
-type Region = { name: RegionName; rect: Rect; area: number };
+export type CollagePlacement = {
+  item: CollageImageItem;
+  rect: Rect;
+  role: "main" | "cell";
+};
+
+export type CollagePlan = {
+  width: number;
+  height: number;
+  /** In draw order: grid / ring cells first, the main image last. */
+  placements: CollagePlacement[];
+  /** Print mode: where the finished (trimmed) collage sits on the canvas. */
+  print?: CollagePrintOptions & { trim: Rect };
+};
+
+type Region = { name: CollageRegionName; rect: Rect; area: number };
 
 function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, value));
@@ -52,45 +221,149 @@ function distribute(total: number, parts: number): number[] {
   return Array.from({ length: safeParts }, (_, i) => base + (i < rem ? 1 : 0));
 }
 
-function computeRegions(size: number, mainRatio: number): {
-  mainRect: Rect;
-  regions: Region[];
-} {
+// Nudge `inner` by one pixel so that (total - inner) splits into two integer bands.
+function evenSplit(total: number, inner: number): number {
+  if ((total - inner) % 2 === 0) return inner;
+  if (inner - 1 >= 1) return inner - 1;
+  return Math.min(total, inner + 1);
+}
+
+function computeMainSize(
+  width: number,
+  height: number,
+  mainRatio: number,
+  mainFit: CollageMainFit,
+  mainAspect: number | undefined,
+): { width: number; height: number } {
   const safeRatio = clamp(mainRatio, 0.05, 0.95);
-  let mainSize = Math.round(size * safeRatio);
-  mainSize = clamp(mainSize, 1, size);
-  // Keep ring thickness integer to avoid sub-pixel seams on canvas.
-  if ((size - mainSize) % 2 !== 0) {
-    const down = mainSize - 1;
-    const up = mainSize + 1;
-    if (down >= 1 && (size - down) % 2 === 0) mainSize = down;
-    else if (up <= size && (size - up) % 2 === 0) mainSize = up;
+  if (mainFit === "image" && mainAspect != null && Number.isFinite(mainAspect) && mainAspect > 0) {
+    // Same area as the proportional rect, but shaped like the image; shrink if it would overflow.
+    const area = width * height * safeRatio * safeRatio;
+    let w = Math.sqrt(area * mainAspect);
+    let h = Math.sqrt(area / mainAspect);
+    const shrink = Math.min(1, (width * 0.95) / w, (height * 0.95) / h);
+    w *= shrink;
+    h *= shrink;
+    return { width: clamp(Math.round(w), 1, width), height: clamp(Math.round(h), 1, height) };
   }
-  const ringT = Math.max(0, (size - mainSize) / 2);
+  return {
+    width: clamp(Math.round(width * safeRatio), 1, width),
+    height: clamp(Math.round(height * safeRatio), 1, height),
+  };
+}
 
-  const mainRect: Rect = {
-    x: ringT,
-    y: ringT,
-    width: mainSize,
-    height: mainSize,
+// Anchor as a point on the unit square: corners at 0 / 1, edge midpoints at 0.5.
+function anchorPoint(anchor: CollageMainAnchor): { x: number; y: number } {
+  return {
+    x: anchor.endsWith("left") ? 0 : anchor.endsWith("right") ? 1 : 0.5,
+    y: anchor.startsWith("top") ? 0 : anchor.startsWith("bottom") ? 1 : 0.5,
   };
+}
 
-  const top: Rect = { x: 0, y: 0, width: size, height: ringT };
-  const bottom: Rect = { x: 0, y: ringT + mainSize, width: size, height: ringT };
-  const left: Rect = { x: 0, y: ringT, width: ringT, height: mainSize };
-  const right: Rect = { x: ringT + mainSize, y: ringT, width: ringT, height: mainSize };
+const GOLDEN_MINOR = (3 - Math.sqrt(5)) / 2; // ≈ 0.382
 
-  const regions: Region[] = [
+// Normalized point the main rect's center aims for (clamped later so the rect stays inside).
+function mainCenter(placement: CollageMainPlacement, anchor: CollageMainAnchor): { x: number; y: number } {
+  const a = anchorPoint(anchor);
+  const toward = (scale: number) => ({ x: 0.5 + (a.x - 0.5) * scale, y: 0.5 + (a.y - 0.5) * scale });
+  if (placement === "thirds") return toward(1 / 3);
+  if (placement === "golden") return toward(1 - 2 * GOLDEN_MINOR);
+  if (placement === "flush" || placement === "side") return a;
+  return { x: 0.5, y: 0.5 };
+}
+
+// Full-height column (left / right) or full-width band (top / bottom); diagonal anchors pick a column.
+function sideMainSize(
+  width: number,
+  height: number,
+  mainRatio: number,
+  mainFit: CollageMainFit,
+  mainAspect: number | undefined,
+  anchor: CollageMainAnchor,
+): { width: number; height: number } {
+  const safeRatio = clamp(mainRatio, 0.05, 0.95);
+  const imageShaped = mainFit === "image" && mainAspect != null && Number.isFinite(mainAspect) && mainAspect > 0;
+  if (anchor === "top" || anchor === "bottom") {
+    const h = imageShaped ? width / mainAspect : height * safeRatio;
+    return { width, height: clamp(Math.round(h), 1, Math.round(height * 0.95)) };
+  }
+  const w = imageShaped ? height * mainAspect : width * safeRatio;
+  return { width: clamp(Math.round(w), 1, Math.round(width * 0.95)), height };
+}
+
+function bandsAround(width: number, height: number, main: Rect): Region[] {
+  const { x, y, width: mainW, height: mainH } = main;
+  const top: Rect = { x: 0, y: 0, width, height: y };
+  const bottom: Rect = { x: 0, y: y + mainH, width, height: height - y - mainH };
+  const left: Rect = { x: 0, y, width: x, height: mainH };
+  const right: Rect = { x: x + mainW, y, width: width - x - mainW, height: mainH };
+  return [
     { name: "top", rect: top, area: top.width * top.height },
     { name: "right", rect: right, area: right.width * right.height },
     { name: "bottom", rect: bottom, area: bottom.width * bottom.height },
     { name: "left", rect: left, area: left.width * left.height },
   ];
+}
+
+function computeRegions(
+  width: number,
+  height: number,
+  mainRatio: number,
+  mainFit: CollageMainFit = "canvas",
+  mainAspect?: number,
+  placement: CollageMainPlacement = "center",
+  anchor: CollageMainAnchor = "top-left",
+  /** Bands thinner than this are closed by moving the main rect against that edge. */
+  minBand = 0,
+): {
+  mainRect: Rect;
+  regions: Region[];
+} {
+  if (placement !== "center") {
+    const main =
+      placement === "side"
+        ? sideMainSize(width, height, mainRatio, mainFit, mainAspect, anchor)
+        : computeMainSize(width, height, mainRatio, mainFit, mainAspect);
+    const center = mainCenter(placement, anchor);
+    const place = (total: number, size: number, at: number) => {
+      let pos = clamp(Math.round(at * total - size / 2), 0, total - size);
+      if (pos > 0 && pos < minBand) pos = 0;
+      const after = total - size - pos;
+      if (after > 0 && after < minBand) pos = total - size;
+      return pos;
+    };
+    const mainRect: Rect = {
+      x: place(width, main.width, center.x),
+      y: place(height, main.height, center.y),
+      width: main.width,
+      height: main.height,
+    };
+    return { mainRect, regions: bandsAround(width, height, mainRect) };
+  }
+
+  const main = computeMainSize(width, height, mainRatio, mainFit, mainAspect);
+  // Keep ring thickness integer to avoid sub-pixel seams on canvas.
+  const mainW = evenSplit(width, main.width);
+  const mainH = evenSplit(height, main.height);
+  const ringX = Math.max(0, (width - mainW) / 2);
+  const ringY = Math.max(0, (height - mainH) / 2);
 
-  return { mainRect, regions };
+  const mainRect: Rect = {
+    x: ringX,
+    y: ringY,
+    width: mainW,
+    height: mainH,
+  };
+
+  return { mainRect, regions: bandsAround(width, height, mainRect) };
+}
+
+function lastWithArea(regions: Region[]): number {
+  for (let r = regions.length - 1; r >= 0; r--) if (regions[r].area > 0) return r;
+  return regions.length - 1;
 }
 
-function allocateCounts(total: number, regions: Region[]): Record<RegionName, number> {
+function allocateCounts(total: number, regions: Region[]): Record<CollageRegionName, number> {
   const safeTotal = Math.max(0, Math.floor(total));
   const ringArea = regions.reduce((sum, r) => sum + r.area, 0);
   if (safeTotal === 0 || ringArea <= 0) {
@@ -107,12 +380,13 @@ function allocateCounts(total: number, regions: Region[]): Record<RegionName, nu
   raw.sort((a, b) => b.frac - a.frac);
   for (let i = 0; i < remaining; i++) raw[i % raw.length].base += 1;
 
-  const out: Record<RegionName, number> = { top: 0, right: 0, bottom: 0, left: 0 };
+  const out: Record<CollageRegionName, number> = { top: 0, right: 0, bottom: 0, left: 0 };
   for (const r of raw) out[r.name] = r.base;
   used = Object.values(out).reduce((sum, v) => sum + v, 0);
   if (used !== safeTotal) {
     const diff = safeTotal - used;
-    out.top += diff;
+    // Normally "top"; off-center placements can leave it empty.
+    out[regions.find((r) => r.area > 0)?.name ?? "top"] += diff;
   }
   return out;
 }
@@ -224,49 +498,386 @@ function buildCellsFilled(rect: Rect, count: number, gap: number): Rect[] {
   return tryBuildCellsFilled({ rect, count: n, gap: 0 }) ?? [];
 }
 
+// Largest-remainder split of `total` proportional to `weights`, at least 1 per part.
+function distributeWeighted(total: number, weights: number[]): number[] | null {
+  const n = weights.length;
+  const safeTotal = Math.max(0, Math.floor(total));
+  if (n === 0) return [];
+  if (safeTotal < n) return null;
+  const spare = safeTotal - n;
+  const sum = weights.reduce((acc, w) => acc + w, 0);
+  if (!(sum > 0)) return distribute(safeTotal, n);
+  const exact = weights.map((w) => (w / sum) * spare);
+  const out = exact.map((e) => 1 + Math.floor(e));
+  let rem = safeTotal - out.reduce((acc, v) => acc + v, 0);
+  const order = exact.map((e, i) => ({ i, frac: e - Math.floor(e) })).sort((a, b) => b.frac - a.frac);
+  for (let k = 0; rem > 0; k = (k + 1) % n, rem--) out[order[k].i] += 1;
+  return out;
+}
+
+// Splits `aspects` (in order) into `rows` contiguous runs with aspect sums as equal as
+// possible (least squares), via the classic linear-partition DP. Returns run lengths.
+function linearPartition(aspects: number[], rows: number): number[] | null {
+  const n = aspects.length;
+  if (rows <= 0 || rows > n) return null;
+  const prefix = new Float64Array(n + 1);
+  for (let i = 0; i < n; i++) prefix[i + 1] = prefix[i] + aspects[i];
+  const target = prefix[n] / rows;
+  // Rows far longer than average are never optimal; bounding them keeps large counts fast.
+  const maxLen = Math.ceil((3 * n) / rows) + 1;
+
+  // cost[k][i]: best cost of putting the first i items into k rows.
+  const cost = Array.from({ length: rows + 1 }, () => new Float64Array(n + 1).fill(Number.POSITIVE_INFINITY));
+  const cut = Array.from({ length: rows + 1 }, () => new Int32Array(n + 1));
+  cost[0][0] = 0;
+  for (let k = 1; k <= rows; k++) {
+    for (let i = k; i <= n - (rows - k); i++) {
+      for (let j = Math.max(k - 1, i - maxLen); j < i; j++) {
+        const prev = cost[k - 1][j];
+        if (prev === Number.POSITIVE_INFINITY) continue;
+        const d = prefix[i] - prefix[j] - target;
+        const c = prev + d * d;
+        if (c < cost[k][i]) {
+          cost[k][i] = c;
+          cut[k][i] = j;
+        }
+      }
+    }
+  }
+  if (cost[rows][n] === Number.POSITIVE_INFINITY) return null;
+
+  const lengths: number[] = [];
+  for (let k = rows, i = n; k > 0; k--) {
+    const j = cut[k][i];
+    lengths.unshift(i - j);
+    i = j;
+  }
+  return lengths;
+}
+
+/**
+ * Justified rows: each row's cells are as wide as their images' aspect ratios dictate at a
+ * shared row height. Row heights are then scaled together so the rows fill the rect exactly,
+ * which distorts every cell by the same small factor; the row count minimizing it wins.
+ */
+function tryBuildCellsJustified(args: {
+  rect: Rect;
+  aspects: number[];
+  gap: number;
+}): { cells: Rect[]; score: number } | null {
+  const n = args.aspects.length;
+  if (n === 0) return { cells: [], score: 0 };
+
+  const gap = Math.max(0, Math.floor(args.gap));
+  const x0 = Math.round(args.rect.x);
+  const y0 = Math.round(args.rect.y);
+  const width = Math.round(args.rect.width);
+  const height = Math.round(args.rect.height);
+  if (width <= 0 || height <= 0) return null;
+
+  const aspects = args.aspects.map((a) => (Number.isFinite(a) && a > 0 ? a : 1));
+  const aspectSum = aspects.reduce((acc, a) => acc + a, 0);
+  // With k balanced rows the natural height is about k² · width / aspectSum.
+  const guess = Math.max(1, Math.round(Math.sqrt((height * aspectSum) / width)));
+
+  let best: { lengths: number[]; naturalHeights: number[]; score: number } | null = null;
+  for (let rows = Math.max(1, guess - 3); rows <= Math.min(n, guess + 3); rows++) {
+    const availableHeight = height - gap * (rows - 1);
+    if (availableHeight < rows) break;
+    const lengths = linearPartition(aspects, rows);
+    if (!lengths) continue;
+
+    const naturalHeights: number[] = [];
+    let start = 0;
+    let ok = true;
+    for (const count of lengths) {
+      const availableWidth = width - gap * (count - 1);
+      if (availableWidth < count) {
+        ok = false;
+        break;
+      }
+      let rowAspect = 0;
+      for (let i = start; i < start + count; i++) rowAspect += aspects[i];
+      naturalHeights.push(availableWidth / rowAspect);
+      start += count;
+    }
+    if (!ok) continue;
+
+    const naturalTotal = naturalHeights.reduce((acc, h) => acc + h, 0);
+    const score = Math.abs(Math.log(naturalTotal / availableHeight));
+    if (!best || score < best.score) best = { lengths, naturalHeights, score };
+  }
+  if (!best) return null;
+
+  const rows = best.lengths.length;
+  const rowHeights = distributeWeighted(height - gap * (rows - 1), best.naturalHeights);
+  if (!rowHeights) return null;
+
+  const cells: Rect[] = [];
+  let y = y0;
+  let start = 0;
+  for (let r = 0; r < rows; r++) {
+    const count = best.lengths[r];
+    const colWidths = distributeWeighted(width - gap * (count - 1), aspects.slice(start, start + count));
+    if (!colWidths) return null;
+    let x = x0;
+    for (let c = 0; c < count; c++) {
+      cells.push({ x, y, width: colWidths[c], height: rowHeights[r] });
+      x += colWidths[c] + gap;
+    }
+    y += rowHeights[r] + gap;
+    start += count;
+  }
+  return { cells, score: best.score };
+}
+
+function transposeRect(rect: Rect): Rect {
+  return { x: rect.y, y: rect.x, width: rect.height, height: rect.width };
+}
+
+function justifyWithFallbackGap(rect: Rect, aspects: number[], gap: number): { cells: Rect[]; score: number } | null {
+  // Tall regions pack better as justified columns: solve the transposed problem.
+  const columns = rect.height > rect.width;
+  const solve = (g: number) => {
+    if (!columns) return tryBuildCellsJustified({ rect, aspects, gap: g });
+    const out = tryBuildCellsJustified({ rect: transposeRect(rect), aspects: aspects.map((a) => 1 / a), gap: g });
+    return out ? { cells: out.cells.map(transposeRect), score: out.score } : null;
+  };
+
+  let g = Math.max(0, Math.floor(gap));
+  for (let attempt = 0; attempt < 4; attempt++) {
+    const out = solve(g);
+    if (out) return out;
+    g = Math.floor(g / 2);
+  }
+  return solve(0);
+}
+
+function buildCellsJustified(rect: Rect, aspects: number[], gap: number): Rect[] {
+  if (aspects.length === 0) return [];
+  return justifyWithFallbackGap(rect, aspects, gap)?.cells ?? buildCellsFilled(rect, aspects.length, gap);
+}
+
+/**
+ * Justified ring: walks the regions in order, nudging each region's area-based count up or down
+ * so its slice of images justifies with the least distortion; the last region takes the rest.
+ */
+function buildRingJustified(
+  regions: Region[],
+  counts: Record<CollageRegionName, number>,
+  aspects: number[],
+  gap: number,
+): { cells: Rect[]; ringRegions: CollageLayout["ringRegions"] } {
+  const cells: Rect[] = [];
+  const ringRegions: CollageLayout["ringRegions"] = [];
+  let offset = 0;
+  for (let r = 0; r < regions.length; r++) {
+    const region = regions[r];
+    const remaining = aspects.length - offset;
+    // Off-center placements can leave empty bands; the last band with room takes the rest.
+    const last = r === lastWithArea(regions);
+    let count = last ? remaining : Math.min(remaining, counts[region.name]);
+    if (!last && count > 0) {
+      // Leave at least one image for every later region that was meant to get some.
+      const reserved = regions.slice(r + 1).filter((later) => counts[later.name] > 0).length;
+      const slack = Math.max(1, Math.round(count * 0.15));
+      let bestScore = Number.POSITIVE_INFINITY;
+      for (let c = Math.max(1, count - slack); c <= Math.min(remaining - reserved, count + slack); c++) {
+        const out = justifyWithFallbackGap(region.rect, aspects.slice(offset, offset + c), gap);
+        if (out && out.score < bestScore) {
+          bestScore = out.score;
+          count = c;
+        }
+      }
+    }
+    const start = cells.length;
+    cells.push(...buildCellsJustified(region.rect, aspects.slice(offset, offset + count), gap));
+    ringRegions.push({ name: region.name, start, count: cells.length - start });
+    offset += count;
+  }
+  return { cells, ringRegions };
+}
+
+export const MAX_WEIGHT = 3;
+
+function tileArea(weight: number | undefined): number {
+  const w = clamp(Math.round(weight ?? 1), 1, MAX_WEIGHT);
+  return w * w;
+}
+
+/**
+ * Weighted treemap: splits `rect` along its longer side between the two halves of `areas` (kept
+ * in order) closest to equal total, recursively, so every cell's area follows its weight and the
+ * cells tile `rect` exactly. Returns cells in input order, or null if the rect is too small.
+ */
+function tryBuildCellsWeighted(rect: Rect, areas: number[], gap: number): Rect[] | null {
+  const cells: Rect[] = new Array(areas.length);
+  const prefix = [0];
+  for (const a of areas) prefix.push(prefix[prefix.length - 1] + a);
+
+  const split = (r: Rect, start: number, end: number): boolean => {
+    if (r.width < 1 || r.height < 1) return false;
+    if (end - start === 1) {
+      cells[start] = r;
+      return true;
+    }
+    const total = prefix[end] - prefix[start];
+    let k = start + 1;
+    for (let i = start + 2; i < end; i++) {
+      if (Math.abs(prefix[i] - prefix[start] - total / 2) < Math.abs(prefix[k] - prefix[start] - total / 2)) k = i;
+    }
+    const horizontal = r.width >= r.height;
+    const available = (horizontal ? r.width : r.height) - gap;
+    if (available < 2) return false;
+    const first = clamp(Math.round((available * (prefix[k] - prefix[start])) / total), 1, available - 1);
+    const a: Rect = horizontal ? { ...r, width: first } : { ...r, height: first };
+    const b: Rect = horizontal
+      ? { ...r, x: r.x + first + gap, width: available - first }
+      : { ...r, y: r.y + first + gap, height: available - first };
+    return split(a, start, k) && split(b, k, end);
+  };
+
+  if (areas.length === 0) return [];
+  const rounded = {
+    x: Math.round(rect.x),
+    y: Math.round(rect.y),
+    width: Math.round(rect.width),
+    height: Math.round(rect.height),
+  };
+  return split(rounded, 0, areas.length) ? cells : null;
+}
+
+function buildCellsWeighted(rect: Rect, weights: number[], gap: number): Rect[] {
+  const areas = weights.map(tileArea);
+  let g = Math.max(0, Math.floor(gap));
+  for (let attempt = 0; attempt < 4; attempt++) {
+    const cells = tryBuildCellsWeighted(rect, areas, g);
+    if (cells) return cells;
+    g = Math.floor(g / 2);
+  }
+  return tryBuildCellsWeighted(rect, areas, 0) ?? [];
+}
+
+/**
+ * Weighted ring: walks the images in ring order, giving each region the run of images whose
+ * total tile area best matches the region's share of the ring, then treemaps each region.
+ */
+function buildRingWeighted(
+  regions: Region[],
+  weights: number[],
+  gap: number,
+): { cells: Rect[]; ringRegions: CollageLayout["ringRegions"] } {
+  const areas = weights.map(tileArea);
+  const totalArea = areas.reduce((sum, a) => sum + a, 0);
+  const ringArea = regions.reduce((sum, r) => sum + r.area, 0);
+  const cells: Rect[] = [];
+  const ringRegions: CollageLayout["ringRegions"] = [];
+  let offset = 0;
+  let usedArea = 0;
+  let targetArea = 0;
+  for (let r = 0; r < regions.length; r++) {
+    const region = regions[r];
+    targetArea += ringArea > 0 ? (region.area / ringArea) * totalArea : 0;
+    let end = offset;
+    if (r === lastWithArea(regions)) end = weights.length;
+    else if (region.area > 0) {
+      // Leave at least one image for every later region that has room.
+      const reserved = regions.slice(r + 1).filter((later) => later.area > 0).length;
+      const limit = Math.max(offset, weights.length - reserved);
+      while (end < limit && (end === offset || usedArea + areas[end] / 2 <= targetArea)) usedArea += areas[end++];
+    }
+    const start = cells.length;
+    cells.push(...buildCellsWeighted(region.rect, weights.slice(offset, end), gap));
+    ringRegions.push({ name: region.name, start, count: cells.length - start });
+    offset = end;
+  }
+  return { cells, ringRegions };
+}
+
 export function computeCollageLayout(options: CollageLayoutOptions): CollageLayout {
-  const size = Math.max(64, Math.floor(options.size));
-  const gap = clamp(options.gap, 0, Math.floor(size / 8));
+  const width = Math.max(64, Math.floor(options.width));
+  const height = Math.max(64, Math.floor(options.height));
+  const gap = clamp(options.gap, 0, Math.floor(Math.min(width, height) / 8));
   const othersCount = Math.max(0, Math.floor(options.othersCount));
 
-  const { mainRect, regions } = computeRegions(size, options.mainRatio);
+  // Off-center placements close bands too thin for about half a typical tile.
+  const typicalTile = Math.sqrt((width * height * (1 - options.mainRatio ** 2)) / Math.max(1, othersCount));
+  const { mainRect, regions } = computeRegions(
+    width,
+    height,
+    options.mainRatio,
+    options.mainFit,
+    options.mainAspect,
+    options.mainPlacement,
+    options.mainAnchor,
+    typicalTile / 2,
+  );
   const counts = allocateCounts(othersCount, regions);
 
-  const ringCells: Rect[] = [];
-  for (const region of regions) {
-    const regionCells = buildCellsFilled(region.rect, counts[region.name], gap);
-    ringCells.push(...regionCells);
+  let ringCells: Rect[] = [];
+  let ringRegions: CollageLayout["ringRegions"] = [];
+  if (options.mode === "justified" && options.ringAspects) {
+    const aspects = Array.from({ length: othersCount }, (_, i) => options.ringAspects?.[i] ?? 1);
+    ({ cells: ringCells, ringRegions } = buildRingJustified(regions, counts, aspects, gap));
+  } else if (options.ringWeights?.some((w) => tileArea(w) > 1)) {
+    const weights = Array.from({ length: othersCount }, (_, i) => options.ringWeights?.[i] ?? 1);
+    ({ cells: ringCells, ringRegions } = buildRingWeighted(regions, weights, gap));
+  } else {
+    for (const region of regions) {
+      const start = ringCells.length;
+      ringCells.push(...buildCellsFilled(region.rect, counts[region.name], gap));
+      ringRegions.push({ name: region.name, start, count: ringCells.length - start });
+    }
   }
 
   return {
-    size,
+    width,
+    height,
     gap,
     mainRect,
     ringCells,
+    ringRegions,
   };
 }
 
+export const MAX_ZOOM = 4;
+
+/** Source rect that `drawImageCover` samples for a given destination size. */
+export function computeCoverCrop(
+  sourceW: number,
+  sourceH: number,
+  destW: number,
+  destH: number,
+  focus: FocalPoint = { x: 0.5, y: 0.5 },
+  zoom = 1,
+): Rect {
+  const scale = Math.max(destW / sourceW, destH / sourceH) * clamp(zoom, 1, MAX_ZOOM);
+  const sWidth = destW / scale;
+  const sHeight = destH / scale;
+  // Center the crop on the focus point, then slide it back inside the source.
+  const sx = clamp(focus.x * sourceW - sWidth / 2, 0, sourceW - sWidth);
+  const sy = clamp(focus.y * sourceH - sHeight / 2, 0, sourceH - sHeight);
+  return { x: Math.max(0, sx), y: Math.max(0, sy), width: Math.max(1, sWidth), height: Math.max(1, sHeight) };
+}
+
 function drawImageCover(
-  ctx: CanvasRenderingContext2D,
+  ctx: CollageContext2D,
   source: CanvasImageSource,
   sourceW: number,
   sourceH: number,
   dest: Rect,
+  focus?: FocalPoint,
+  zoom?: number,
 ): void {
   if (dest.width <= 0 || dest.height <= 0 || sourceW <= 0 || sourceH <= 0) return;
 
-  const scale = Math.max(dest.width / sourceW, dest.height / sourceH);
-  const sWidth = dest.width / scale;
-  const sHeight = dest.height / scale;
-  const sx = (sourceW - sWidth) / 2;
-  const sy = (sourceH - sHeight) / 2;
-
+  const crop = computeCoverCrop(sourceW, sourceH, dest.width, dest.height, focus, zoom);
   ctx.drawImage(
     source,
-    Math.max(0, sx),
-    Math.max(0, sy),
-    Math.max(1, sWidth),
-    Math.max(1, sHeight),
+    crop.x,
+    crop.y,
+    crop.width,
+    crop.height,
     dest.x,
     dest.y,
     dest.width,
@@ -274,21 +885,29 @@ function drawImageCover(
   );
 }
 
-type DecodedImage = {
+export type DecodedImage = {
   source: CanvasImageSource;
   width: number;
   height: number;
   close?: () => void;
 };
 
-async function decodeImage(file: File): Promise<DecodedImage> {
+type DecodeSize = { width: number; height: number };
+
+/**
+ * Decodes `file`, optionally straight to `size` (oriented pixels) so a 60 px cell never holds
+ * a 24 MP bitmap. The <img> fallback ignores `size`; drawImage scales it down instead.
+ */
+async function decodeImage(file: File, size?: DecodeSize): Promise<DecodedImage> {
   if (typeof createImageBitmap === "function") {
     try {
-      const bitmap = await createImageBitmap(
-        file,
-        // Some TS DOM lib versions lag behind; cast to keep builds green.
-        { imageOrientation: "from-image" } as unknown as ImageBitmapOptions,
-      );
+      const options: ImageBitmapOptions = { imageOrientation: "from-image" };
+      if (size) {
+        options.resizeWidth = size.width;
+        options.resizeHeight = size.height;
+        options.resizeQuality = "high";
+      }
+      const bitmap = await createImageBitmap(file, options);
       return {
         source: bitmap,
         width: bitmap.width,
@@ -300,6 +919,7 @@ async function decodeImage(file: File): Promise<DecodedImage> {
     }
   }
 
+  if (typeof Image === "undefined") throw new Error(`Cannot decode ${file.name}.`);
   const url = URL.createObjectURL(file);
   try {
     const img = new Image();
@@ -312,155 +932,961 @@ async function decodeImage(file: File): Promise<DecodedImage> {
   }
 }
 
-function shuffleInPlace<T>(arr: T[]): void {
+/**
+ * Reads an image's oriented pixel size. Decodes the file, so keep it off the hot path. With
+ * `thumbnailSide`, also returns a small bitmap (longest side ≤ thumbnailSide) from that decode.
+ */
+export async function measureImage(
+  file: File,
+  thumbnailSide?: number,
+): Promise<{ width: number; height: number; thumbnail?: ImageBitmap }> {
+  const decoded = await decodeImage(file);
+  try {
+    const size = { width: decoded.width, height: decoded.height };
+    const canThumb = typeof createImageBitmap === "function" && decoded.width > 0 && decoded.height > 0;
+    if (!thumbnailSide || !canThumb) return size;
+    const scale = Math.min(1, thumbnailSide / Math.max(decoded.width, decoded.height));
+    const thumbnail = await createImageBitmap(decoded.source as ImageBitmapSource, {
+      resizeWidth: Math.max(1, Math.round(decoded.width * scale)),
+      resizeHeight: Math.max(1, Math.round(decoded.height * scale)),
+      resizeQuality: "medium",
+    });
+    return { ...size, thumbnail };
+  } finally {
+    decoded.close?.();
+  }
+}
+
+export function createShuffleSeed(): number {
+  return Math.floor(Math.random() * 0x1_0000_0000) >>> 0;
+}
+
+// mulberry32: tiny, fast and good enough for shuffling; returns floats in [0, 1).
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x1_0000_0000;
+  };
+}
+
+function shuffleInPlace<T>(arr: T[], random: () => number = Math.random): void {
   for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [arr[i], arr[j]] = [arr[j], arr[i]];
   }
 }
 
+// Pixel size at which an image fully covers `dest` (including manual zoom); never upscales.
+// `headroom` > 1 decodes a bit larger so cached copies survive small layout tweaks.
+function decodeSizeFor(item: CollageImageItem, dest: Rect, headroom = 1): DecodeSize | undefined {
+  if (!item.width || !item.height || dest.width <= 0 || dest.height <= 0) return undefined;
+  const zoom = clamp(item.zoom ?? 1, 1, MAX_ZOOM);
+  const scale = Math.max(dest.width / item.width, dest.height / item.height) * zoom * headroom;
+  if (scale >= 1) return undefined;
+  return {
+    width: Math.max(1, Math.ceil(item.width * scale)),
+    height: Math.max(1, Math.ceil(item.height * scale)),
+  };
+}
+
+const CACHE_HEADROOM = 1.25;
+
+async function decodeCached(
+  cache: BitmapCache,
+  item: CollageImageItem,
+  dest: Rect,
+): Promise<DecodedImage> {
+  const needed = decodeSizeFor(item, dest);
+  const hit = cache.acquire(item.id, needed ?? null);
+  if (hit) return hit;
+  const size = needed ? decodeSizeFor(item, dest, CACHE_HEADROOM) : undefined;
+  const decoded = await decodeImage(item.file, size);
+  return cache.insert(item.id, decoded, size == null);
+}
+
+function defaultDecodeConcurrency(): number {
+  const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 4 : 4;
+  return clamp(cores - 1, 2, 6);
+}
+
+/**
+ * Decodes images ahead of the consumer with at most `concurrency` decodes in flight, handing
+ * them out in order, so drawing one image overlaps with decoding the next few. Only the window
+ * ahead of the consumer is alive at once, which bounds peak memory.
+ */
+function createDecodePipeline(
+  count: number,
+  concurrency: number,
+  load: (idx: number) => Promise<DecodedImage>,
+): { take: (idx: number) => Promise<DecodedImage>; dispose: () => void } {
+  const started: (Promise<DecodedImage> | undefined)[] = new Array(count);
+  const taken = new Set<number>();
+  let next = 0;
+
+  const fill = (consumer: number) => {
+    while (next < count && next < consumer + concurrency) {
+      const promise = load(next);
+      // Failures surface when taken; keep them from being reported as unhandled meanwhile.
+      promise.catch(() => undefined);
+      started[next] = promise;
+      next += 1;
+    }
+  };
+
+  return {
+    take(idx) {
+      fill(idx);
+      taken.add(idx);
+      return started[idx] as Promise<DecodedImage>;
+    },
+    dispose() {
+      for (let i = 0; i < next; i++) {
+        if (!taken.has(i)) started[i]?.then((decoded) => decoded.close?.(), () => undefined);
+      }
+    },
+  };
+}
+
+// Workers have no reliable requestAnimationFrame; a macrotask still lets abort messages in.
 function nextFrame(): Promise<void> {
+  if (typeof requestAnimationFrame !== "function") return new Promise((resolve) => setTimeout(resolve, 0));
   return new Promise((resolve) => requestAnimationFrame(() => resolve()));
 }
 
+function imageAspect(item: CollageImageItem): number | null {
+  if (!item.width || !item.height) return null;
+  return item.width / item.height;
+}
+
+// Cells whose log-aspects differ by less than this count as the same shape.
+const SAME_SHAPE_EPSILON = 0.02;
+
+/**
+ * Assigns `items` to `cells` minimizing the total |log(image aspect) - log(cell aspect)|.
+ * For this 1-D cost, pairing both lists sorted by log-aspect is an optimal matching.
+ * Within a run of same-shaped cells the choice is free, so those images keep their incoming
+ * (possibly shuffled) order across the cells; shuffle still decides what goes where.
+ */
+function assignByAspect(items: CollageImageItem[], cells: Rect[]): CollageImageItem[] {
+  const n = Math.min(items.length, cells.length);
+  if (n <= 1) return items.slice(0, n);
+
+  const itemLog = items.slice(0, n).map((item, idx) => ({ idx, log: Math.log(imageAspect(item) ?? 1) }));
+  const cellLog = cells.slice(0, n).map((cell, idx) => ({
+    idx,
+    log: Math.log(Math.max(1, cell.width) / Math.max(1, cell.height)),
+  }));
+  itemLog.sort((a, b) => a.log - b.log || a.idx - b.idx);
+  cellLog.sort((a, b) => a.log - b.log || a.idx - b.idx);
+
+  const out: CollageImageItem[] = new Array(n);
+  let start = 0;
+  while (start < n) {
+    let end = start + 1;
+    while (end < n && cellLog[end].log - cellLog[start].log < SAME_SHAPE_EPSILON) end++;
+    const runCells = cellLog.slice(start, end).map((c) => c.idx).sort((a, b) => a - b);
+    const runItems = itemLog.slice(start, end).map((i) => i.idx).sort((a, b) => a - b);
+    for (let k = 0; k < runCells.length; k++) out[runCells[k]] = items[runItems[k]];
+    start = end;
+  }
+  return out;
+}
+
+// Space around the trim area: just the bleed, or also the slug the crop marks sit in.
+function printMargin(print: CollagePrintOptions): number {
+  const bleed = Math.max(0, Math.round(print.bleed));
+  if (!print.cropMarks) return bleed;
+  return Math.max(bleed, Math.ceil(print.cropMarks.offset + print.cropMarks.length));
+}
+
+// Moves a trim-sized plan onto the print canvas and pushes edge tiles out into the bleed.
+function applyPrintMargins(plan: CollagePlan, print: CollagePrintOptions): CollagePlan {
+  const bleed = Math.max(0, Math.round(print.bleed));
+  const margin = printMargin(print);
+  const trim: Rect = { x: margin, y: margin, width: plan.width, height: plan.height };
+  // Layout coordinates are whole pixels; allow for rounding in image-shaped main rects.
+  const touches = (a: number, b: number) => Math.abs(a - b) < 1;
+  const placements = plan.placements.map((p) => {
+    const { x, y, width, height } = p.rect;
+    const left = touches(x, 0) ? bleed : 0;
+    const top = touches(y, 0) ? bleed : 0;
+    const right = touches(x + width, plan.width) ? bleed : 0;
+    const bottom = touches(y + height, plan.height) ? bleed : 0;
+    const rect: Rect = {
+      x: margin + x - left,
+      y: margin + y - top,
+      width: width + left + right,
+      height: height + top + bottom,
+    };
+    return { ...p, rect };
+  });
+  return {
+    width: plan.width + margin * 2,
+    height: plan.height + margin * 2,
+    placements,
+    print: { ...print, bleed, trim },
+  };
+}
+
+/**
+ * Decides which image goes into which rect, without decoding anything. Rendering, and any UI
+ * that needs to know where an image will land, share this so they always agree.
+ */
+export function planCollage(args: {
+  images: CollageImageItem[];
+  mainId: string;
+  options: RenderCollageOptions;
+  /** Main image width / height for options.mainFit "image"; defaults to the item's own size. */
+  mainAspect?: number;
+}): CollagePlan {
+  const plan = planTrim(args);
+  return args.options.print ? applyPrintMargins(plan, args.options.print) : plan;
+}
+
+type MainPairShape = {
+  /** Side by side (true) or stacked. */
+  horizontal: boolean;
+  /** Share of the main rect's long side that goes to the first image. */
+  share: number;
+  /** Aspect of the combined rect, for the "image" main fit. */
+  aspect: number;
+};
+
+// Two main images: side by side or stacked, whichever combined shape is closer to the canvas.
+function mainPairShape(width: number, height: number, a: number | null, b: number | null): MainPairShape {
+  const first = a ?? 1;
+  const second = b ?? 1;
+  const sideBySide = first + second;
+  const stacked = 1 / (1 / first + 1 / second);
+  const target = Math.log(width / height);
+  const horizontal = Math.abs(Math.log(sideBySide) - target) <= Math.abs(Math.log(stacked) - target);
+  return horizontal
+    ? { horizontal, share: first / sideBySide, aspect: sideBySide }
+    : { horizontal, share: 1 / first / (1 / first + 1 / second), aspect: stacked };
+}
+
+function splitMainRect(rect: Rect, pair: MainPairShape, gap: number): [Rect, Rect] {
+  const along = pair.horizontal ? rect.width : rect.height;
+  const g = Math.min(Math.max(0, Math.floor(gap)), Math.max(0, along - 2));
+  const first = clamp(Math.round((along - g) * pair.share), 1, Math.max(1, along - g - 1));
+  const rest = Math.max(1, along - g - first);
+  return pair.horizontal
+    ? [
+        { ...rect, width: first },
+        { ...rect, x: rect.x + first + g, width: rest },
+      ]
+    : [
+        { ...rect, height: first },
+        { ...rect, y: rect.y + first + g, height: rest },
+      ];
+}
+
+function mainPlacements(
+  main: CollageImageItem,
+  secondMain: CollageImageItem | undefined,
+  pair: MainPairShape | null,
+  rect: Rect,
+  gap: number,
+): CollagePlacement[] {
+  if (!secondMain || !pair) return [{ item: main, rect, role: "main" }];
+  const [first, second] = splitMainRect(rect, pair, gap);
+  return [
+    { item: main, rect: first, role: "main" },
+    { item: secondMain, rect: second, role: "main" },
+  ];
+}
+
+// Input order for the cells: the manual arrangement if there is one, else (optionally) shuffled
+// and then sorted by capture time.
+function orderItems(
+  items: CollageImageItem[],
+  options: RenderCollageOptions,
+  random: () => number,
+): CollageImageItem[] {
+  if (options.order) {
+    const rank = new Map(options.order.map((id, idx) => [id, idx]));
+    const listed = items
+      .filter((i) => rank.has(i.id))
+      .sort((a, b) => (rank.get(a.id) ?? 0) - (rank.get(b.id) ?? 0));
+    return [...listed, ...items.filter((i) => !rank.has(i.id))];
+  }
+  const ordered = [...items];
+  if (options.shuffleOthers) shuffleInPlace(ordered, random);
+  if (options.timeOrder) {
+    ordered.sort((a, b) => (captureTime(a) === captureTime(b) ? 0 : captureTime(a) - captureTime(b)));
+  }
+  return ordered;
+}
+
+const PIN_LAYOUT_ROUNDS = 4;
+
+/**
+ * Moves pinned images (`items` are in ring cell order) into their region by swapping them with
+ * the first tile there that isn't pinned to it. Every swap settles one more pin, so this ends;
+ * pins beyond a region's capacity stay where they are.
+ */
+function applyPins(
+  items: CollageImageItem[],
+  ringRegions: CollageLayout["ringRegions"],
+  pins: Record<string, CollageRegionName>,
+): CollageImageItem[] {
+  const out = [...items];
+  const regionAt = (idx: number) => ringRegions.find((r) => idx >= r.start && idx < r.start + r.count)?.name;
+  for (let idx = 0; idx < out.length; idx++) {
+    for (;;) {
+      const want = pins[out[idx].id];
+      if (!want || regionAt(idx) === want) break;
+      const region = ringRegions.find((r) => r.name === want);
+      let target = -1;
+      for (let j = region?.start ?? 0; region && j < region.start + region.count; j++) {
+        if (j < out.length && pins[out[j].id] !== want) {
+          target = j;
+          break;
+        }
+      }
+      if (target < 0) break;
+      [out[idx], out[target]] = [out[target], out[idx]];
+    }
+  }
+  return out;
+}
+
+export type CollageArrangement = Pick<RenderCollageOptions, "order" | "pins" | "secondMainId">;
+
+/** Rewrites the image ids in an arrangement for photos re-imported under new ids; unmatched ids drop out. */
+export function remapArrangement(arrangement: CollageArrangement, ids: Map<string, string>): CollageArrangement {
+  const order = arrangement.order?.flatMap((id) => ids.get(id) ?? []);
+  const pins = arrangement.pins
+    ? Object.fromEntries(
+        Object.entries(arrangement.pins).flatMap(([id, region]) => {
+          const mapped = ids.get(id);
+          return mapped ? [[mapped, region]] : [];
+        }),
+      )
+    : undefined;
+  const secondMainId = arrangement.secondMainId ? ids.get(arrangement.secondMainId) : undefined;
+  return { order, pins, secondMainId };
+}
+
+/** The topmost placement at (x, y) in plan pixels, e.g. for picking tiles on a preview. */
+export function placementAt(plan: CollagePlan, x: number, y: number): CollagePlacement | null {
+  for (let idx = plan.placements.length - 1; idx >= 0; idx--) {
+    const { rect } = plan.placements[idx];
+    if (x >= rect.x && x < rect.x + rect.width && y >= rect.y && y < rect.y + rect.height) {
+      return plan.placements[idx];
+    }
+  }
+  return null;
+}
+
+// Shown when a shape can't hold every photo; falling back to the plain rectangle would hide that.
+const MASK_TOO_SMALL = "形状放不下这么多照片：请减少照片、缩小间距，或换一个更饱满的形状。";
+
+function planTrim(args: {
+  images: CollageImageItem[];
+  mainId: string;
+  options: RenderCollageOptions;
+  mainAspect?: number;
+}): CollagePlan {
+  const { images, mainId, options } = args;
+  const width = Math.max(64, Math.floor(options.width));
+  const height = Math.max(64, Math.floor(options.height));
+  const random = options.seed == null ? Math.random : createRandom(options.seed);
+  // Justified cells already follow each image's shape, so there is nothing left to reassign.
+  const justified = options.layoutMode === "justified";
+  const main = images.find((i) => i.id === mainId) ?? images[0];
+  const secondMain = options.useMain
+    ? images.find((i) => i.id === options.secondMainId && i.id !== main.id)
+    : undefined;
+  // Weighted tiles are sized for their image too; swapping images between them would undo that.
+  const weighted =
+    !justified && images.some((i) => i !== main && i !== secondMain && tileArea(i.weight) > 1);
+  const shapedByImage = justified || weighted;
+
+  // A manual order already says which image goes where.
+  const byAspect =
+    options.assignByAspect && !shapedByImage && !options.order && !options.colorOrder && !options.timeOrder;
+  const ringOrder = options.order ? undefined : options.timeOrder ? "time" : options.colorOrder;
+
+  if (!options.useMain) {
+    const ordered = orderItems(images, options, random);
+
+    const fullRect: Rect = { x: 0, y: 0, width, height };
+    const masked = options.mask
+      ? layoutMaskedGrid({ rect: fullRect, mask: options.mask, count: ordered.length, gap: options.gap })
+      : null;
+    if (options.mask && !masked) throw new Error(MASK_TOO_SMALL);
+    const cells =
+      masked?.cells ??
+      (justified
+        ? buildCellsJustified(fullRect, ordered.map((i) => imageAspect(i) ?? 1), options.gap)
+        : weighted
+          ? buildCellsWeighted(fullRect, ordered.map((i) => i.weight ?? 1), options.gap)
+          : buildCellsFilled(fullRect, ordered.length, options.gap));
+    if (cells.length !== ordered.length) throw new Error("Layout did not allocate enough cells for images.");
+    const assigned = byAspect ? assignByAspect(ordered, cells) : ordered;
+    return {
+      width,
+      height,
+      placements: assigned.map((item, idx) => ({ item, rect: cells[idx], role: "cell" })),
+    };
+  }
+
+  let othersOrdered = orderItems(
+    images.filter((i) => i !== main && i !== secondMain),
+    options,
+    random,
+  );
+  const pair = secondMain ? mainPairShape(width, height, imageAspect(main), imageAspect(secondMain)) : null;
+  const mainAspect = pair ? pair.aspect : (args.mainAspect ?? imageAspect(main) ?? undefined);
+  const pins = options.pins && Object.keys(options.pins).length > 0 ? options.pins : null;
+
+  const masked = options.mask
+    ? layoutMaskedGrid({
+        rect: { x: 0, y: 0, width, height },
+        mask: options.mask,
+        count: othersOrdered.length,
+        gap: options.gap,
+        mainRatio: options.mainRatio,
+      })
+    : null;
+  if (options.mask && !masked?.mainRect) throw new Error(MASK_TOO_SMALL);
+  if (masked?.mainRect) {
+    const mainRect = masked.mainRect;
+    const assigned = ringOrder
+      ? sortRing(othersOrdered, masked.cells, mainRect, ringOrder, main)
+      : byAspect
+        ? assignByAspect(othersOrdered, masked.cells)
+        : othersOrdered;
+    const placements: CollagePlacement[] = assigned.map((item, idx) => ({
+      item,
+      rect: masked.cells[idx],
+      role: "cell",
+    }));
+    placements.push(...mainPlacements(main, secondMain, pair, mainRect, options.gap));
+    return { width, height, placements };
+  }
+
+  const layoutFor = (ring: CollageImageItem[]) =>
+    computeCollageLayout({
+      width,
+      height,
+      mainRatio: options.mainRatio,
+      gap: options.gap,
+      othersCount: ring.length,
+      mainFit: options.mainFit,
+      mainAspect,
+      mainPlacement: options.mainPlacement,
+      mainAnchor: options.mainAnchor,
+      mode: options.layoutMode,
+      ringAspects: justified ? ring.map((i) => imageAspect(i) ?? 1) : undefined,
+      ringWeights: weighted ? ring.map((i) => i.weight ?? 1) : undefined,
+    });
+  let layout = layoutFor(othersOrdered);
+  if (ringOrder) {
+    othersOrdered = sortRing(othersOrdered, layout.ringCells, layout.mainRect, ringOrder, main);
+    // Image-shaped cells move with their images; lay out again so they follow the sorted order.
+    if (shapedByImage) layout = layoutFor(othersOrdered);
+  }
+  // Justified / weighted cells follow the images, so pin first and lay out again. Region counts
+  // shift with the moved images; a few rounds settle them (a pin may still end up a tile off a
+  // boundary).
+  for (let round = 0; pins && shapedByImage && round < PIN_LAYOUT_ROUNDS; round++) {
+    const pinned = applyPins(othersOrdered, layout.ringRegions, pins);
+    if (pinned.every((item, idx) => item === othersOrdered[idx])) break;
+    othersOrdered = pinned;
+    layout = layoutFor(othersOrdered);
+  }
+  if (layout.ringCells.length < othersOrdered.length) {
+    throw new Error("Layout did not allocate enough cells for ring images.");
+  }
+
+  let assigned = byAspect ? assignByAspect(othersOrdered, layout.ringCells) : othersOrdered;
+  if (pins && !shapedByImage) assigned = applyPins(assigned, layout.ringRegions, pins);
+  const placements: CollagePlacement[] = assigned.map((item, idx) => ({
+    item,
+    rect: layout.ringCells[idx],
+    role: "cell",
+  }));
+  placements.push(...mainPlacements(main, secondMain, pair, layout.mainRect, layout.gap));
+  return { width, height, placements };
+}
+
+function rectCenter(rect: Rect): { x: number; y: number } {
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
+
+function captureTime(item: CollageImageItem): number {
+  return item.metadata?.takenAt ?? Number.POSITIVE_INFINITY;
+}
+
+/**
+ * Reorders ring images (`items`, in `cells` order). "hue" and "time" walk the cells clockwise
+ * around the main rect, starting toward the top-left corner, and hand them out by hue or capture
+ * time; "palette" hands the cells nearest the main rect to the images closest to the main image's
+ * colors. Images without colors (or dates) keep their relative order at the end.
+ */
+function sortRing(
+  items: CollageImageItem[],
+  cells: Rect[],
+  mainRect: Rect,
+  order: CollageColorOrder | "time",
+  main: CollageImageItem,
+): CollageImageItem[] {
+  const n = Math.min(items.length, cells.length);
+  const center = rectCenter(mainRect);
+  const start = Math.atan2(-center.y, -center.x);
+  const clockwise = (cell: Rect) => {
+    const c = rectCenter(cell);
+    const turn = Math.atan2(c.y - center.y, c.x - center.x) - start;
+    return (turn + 4 * Math.PI) % (2 * Math.PI);
+  };
+  const nearness = (cell: Rect) => {
+    const dx = Math.max(0, mainRect.x - (cell.x + cell.width), cell.x - (mainRect.x + mainRect.width));
+    const dy = Math.max(0, mainRect.y - (cell.y + cell.height), cell.y - (mainRect.y + mainRect.height));
+    return Math.hypot(dx, dy);
+  };
+
+  const cellOrder = cells
+    .slice(0, n)
+    .map((cell, idx) => ({ idx, angle: clockwise(cell), near: order === "palette" ? nearness(cell) : 0 }))
+    .sort((a, b) => a.near - b.near || a.angle - b.angle);
+  const key = (item: CollageImageItem) =>
+    order === "time"
+      ? captureTime(item)
+      : order === "hue"
+        ? hueOrderKey(item.colors)
+        : paletteDistance(item.colors, main.colors);
+  // Array.prototype.sort is stable, so equal keys keep the incoming (possibly shuffled) order.
+  const sorted = items
+    .slice(0, n)
+    .map((item) => ({ item, key: key(item) }))
+    .sort((a, b) => (a.key === b.key ? 0 : a.key - b.key));
+
+  const out = [...items];
+  cellOrder.forEach((cell, rank) => {
+    out[cell.idx] = sorted[rank].item;
+  });
+  return out;
+}
+
+/**
+ * Aspect-aware assignment, justified rows and image-shaped main rects need sizes before layout,
+ * color-sorted rings need each image's colors, and time order / captions its metadata; returns
+ * `images` with whatever the caller did not collect up front measured in.
+ */
+export async function resolveImageSizes(args: {
+  images: CollageImageItem[];
+  mainId: string;
+  options: RenderCollageOptions;
+  signal?: AbortSignal;
+  onProgress?: (progress: CollageProgress) => void;
+}): Promise<CollageImageItem[]> {
+  const { images, mainId, options, signal, onProgress } = args;
+  const mainItem = images.find((i) => i.id === mainId) ?? images[0];
+  const needsSize = (item: CollageImageItem) =>
+    options.assignByAspect ||
+    options.layoutMode === "justified" ||
+    // Image-shaped main rects, and a main pair's split, follow the main images' aspects.
+    (options.useMain &&
+      (options.mainFit === "image" || options.secondMainId != null) &&
+      (item === mainItem || item.id === options.secondMainId));
+  const needsColors = options.useMain && options.colorOrder != null && !options.order;
+  const needsMetadata = (options.timeOrder && !options.order) || options.dateCaptions;
+  const needsMeasure = (i: CollageImageItem) =>
+    (needsSize(i) && (!i.width || !i.height)) || (needsColors && !i.colors);
+  const missing = images.filter((i) => needsMeasure(i) || (needsMetadata && !i.metadata));
+  const found = new Map<string, Pick<CollageImageItem, "width" | "height" | "colors" | "metadata">>();
+  const label = needsColors ? "分析图片颜色" : needsMetadata ? "读取拍摄信息" : "读取图片尺寸";
+  for (let idx = 0; idx < missing.length; idx++) {
+    if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+    const item = missing[idx];
+    onProgress?.({
+      phase: "layout",
+      done: idx,
+      total: missing.length,
+      message: `${label} ${idx + 1}/${missing.length}…`,
+    });
+    const metadata = item.metadata ?? (needsMetadata ? await readImageMetadata(item.file) : undefined);
+    if (!needsMeasure(item)) {
+      found.set(item.id, { metadata });
+      continue;
+    }
+    const { thumbnail, ...size } = await measureImage(item.file, needsColors ? COLOR_ANALYSIS_SIDE : undefined);
+    let colors = item.colors;
+    if (thumbnail) {
+      colors ??= extractImageColors(thumbnail, thumbnail.width, thumbnail.height) ?? undefined;
+      thumbnail.close();
+    }
+    found.set(item.id, { ...size, colors, metadata });
+  }
+  return found.size > 0 ? images.map((i) => ({ ...i, ...found.get(i.id) })) : images;
+}
+
+function intersects(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/** Draws the collage and returns the plan it drew, sizes and colors resolved. */
 export async function renderCollageToCanvas(args: {
-  canvas: HTMLCanvasElement;
+  canvas: CollageCanvas;
   images: CollageImageItem[];
   mainId: string;
   options: RenderCollageOptions;
+  /** Precomputed plan (e.g. shared by all strips of a tiled export); planned here if omitted. */
+  plan?: CollagePlan;
+  /** Part of the collage to draw; the canvas is sized to it. Defaults to the whole collage. */
+  viewport?: Rect;
+  /** Reuses decoded bitmaps across renders (e.g. repeated previews after a settings tweak). */
+  cache?: BitmapCache;
   signal?: AbortSignal;
   onProgress?: (progress: CollageProgress) => void;
-}): Promise<void> {
-  const { canvas, images, mainId, options, signal, onProgress } = args;
+}): Promise<CollagePlan> {
+  const { canvas, images, mainId, options, cache, signal, onProgress } = args;
   if (images.length === 0) throw new Error("No images provided.");
 
-  const size = Math.max(64, Math.floor(options.size));
-  const ctx = canvas.getContext("2d", { alpha: false });
+  const ctx = canvas.getContext("2d", { alpha: options.transparent === true }) as CollageContext2D | null;
   if (!ctx) throw new Error("Canvas 2D context is not available.");
 
-  canvas.width = size;
-  canvas.height = size;
-
   onProgress?.({ phase: "layout", done: 0, total: 1, message: "计算布局…" });
 
-  ctx.save();
-  ctx.fillStyle = options.background;
-  ctx.fillRect(0, 0, size, size);
-  ctx.restore();
+  const focusFor = (item: CollageImageItem, decoded: DecodedImage): FocalPoint | undefined => {
+    if (item.focalPoint) return item.focalPoint;
+    if (options.cropAnchor === "saliency") {
+      return getFocalPoint(item.id, decoded.source, decoded.width, decoded.height);
+    }
+    return undefined;
+  };
 
-  if (!options.useMain) {
-    const ordered = [...images];
-    if (options.shuffleOthers) shuffleInPlace(ordered);
+  const plan =
+    args.plan ??
+    planCollage({
+      images: await resolveImageSizes({ images, mainId, options, signal, onProgress }),
+      mainId,
+      options,
+    });
+  const viewport = args.viewport ?? { x: 0, y: 0, width: plan.width, height: plan.height };
+  const placements = plan.placements.filter((p) => intersects(p.rect, viewport));
 
-    const cells = buildCellsFilled({ x: 0, y: 0, width: size, height: size }, ordered.length, options.gap);
-    if (cells.length !== ordered.length) throw new Error("Layout did not allocate enough cells for images.");
+  const total = placements.length;
+  let drawn = 0;
 
-    const totalToDraw = ordered.length;
-    let drawn = 0;
-    for (let idx = 0; idx < ordered.length; idx++) {
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  ctx.save();
+  ctx.translate(-viewport.x, -viewport.y);
+  drawBackground(ctx, plan, options.transparent ? null : options.background);
+  // Mosaic tiles are the ring photos; with none there is nothing to build the main image from.
+  const mosaicTiles = options.useMain && options.mosaic ? mosaicTileItems(plan) : [];
+  const asMosaic = (role: CollagePlacement["role"]) => role === "main" && mosaicTiles.length > 0;
+  const pipeline = createDecodePipeline(placements.length, defaultDecodeConcurrency(), (idx) => {
+    const { item, rect, role } = placements[idx];
+    // A mosaic only samples the main image's colors, at a size fixed by its grid, so preview and
+    // export agree on every cell.
+    if (asMosaic(role) && options.mosaic) {
+      const grid = mosaicGrid(rect, options.mosaic.columns);
+      const sample = targetSampleSize(grid.columns, grid.rows);
+      return decodeImage(item.file, decodeSizeFor(item, { x: 0, y: 0, ...sample }));
+    }
+    return cache ? decodeCached(cache, item, rect) : decodeImage(item.file, decodeSizeFor(item, rect));
+  });
+  try {
+    for (let idx = 0; idx < placements.length; idx++) {
       if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
 
-      const item = ordered[idx];
-      const dest = cells[idx];
+      const { item, rect, role } = placements[idx];
+      const isMain = role === "main";
       onProgress?.({
         phase: "decode",
         done: drawn,
-        total: totalToDraw,
-        message: `解码图片 ${drawn + 1}/${totalToDraw}…`,
+        total,
+        message: isMain ? "解码主图…" : `解码图片 ${drawn + 1}/${total}…`,
       });
-      const decoded = await decodeImage(item.file);
+      const decoded = await pipeline.take(idx);
       try {
         onProgress?.({
           phase: "render",
           done: drawn,
-          total: totalToDraw,
-          message: `绘制图片 ${drawn + 1}/${totalToDraw}…`,
+          total,
+          message: isMain ? "绘制主图…" : `绘制图片 ${drawn + 1}/${total}…`,
         });
-        drawImageCover(ctx, decoded.source, decoded.width, decoded.height, dest);
+        if (asMosaic(role) && options.mosaic) {
+          await drawMosaic({
+            ctx,
+            rect,
+            target: decoded,
+            targetFocus: focusFor(item, decoded),
+            targetZoom: item.zoom,
+            tiles: mosaicTiles,
+            mosaic: options.mosaic,
+            seed: options.seed,
+            cropAnchor: options.cropAnchor,
+            viewport,
+            cache,
+            signal,
+            focusFor,
+            onProgress: (message) => onProgress?.({ phase: "render", done: drawn, total, message }),
+          });
+        } else {
+          drawImageCover(ctx, decoded.source, decoded.width, decoded.height, rect, focusFor(item, decoded), item.zoom);
+        }
+        const takenAt = item.metadata?.takenAt;
+        if (options.dateCaptions && takenAt != null) drawCaption(ctx, rect, formatCaptureDate(takenAt));
       } finally {
         decoded.close?.();
       }
       drawn += 1;
       if (idx % 4 === 0) await nextFrame();
     }
-
-    onProgress?.({ phase: "render", done: drawn, total: totalToDraw, message: "完成" });
-    return;
+    drawCropMarks(ctx, plan);
+  } finally {
+    pipeline.dispose();
+    ctx.restore();
   }
 
-  const main = images.find((i) => i.id === mainId) ?? images[0];
-  const others = images.filter((i) => i.id !== main.id);
-  const othersOrdered = [...others];
-  if (options.shuffleOthers) shuffleInPlace(othersOrdered);
-
-  const layout = computeCollageLayout({
-    size,
-    mainRatio: options.mainRatio,
-    gap: options.gap,
-    othersCount: othersOrdered.length,
-  });
+  onProgress?.({ phase: "render", done: drawn, total, message: "完成" });
+  return plan;
+}
 
-  const totalToDraw = othersOrdered.length + 1;
-  let drawn = 0;
+// Tiles shorter than this (px) are too small for a legible caption.
+const MIN_CAPTION_TILE = 48;
 
-  for (let idx = 0; idx < othersOrdered.length; idx++) {
-    if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+// White text with a soft shadow in the bottom-right corner, sized to the tile.
+function drawCaption(ctx: CollageContext2D, rect: Rect, text: string): void {
+  const side = Math.min(rect.width, rect.height);
+  if (side < MIN_CAPTION_TILE) return;
+  const size = clamp(Math.round(side * 0.07), 10, 64);
+  const pad = Math.round(size * 0.6);
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(rect.x, rect.y, rect.width, rect.height);
+  ctx.clip();
+  ctx.font = `600 ${size}px system-ui, -apple-system, "Segoe UI", sans-serif`;
+  ctx.textAlign = "right";
+  ctx.textBaseline = "bottom";
+  ctx.shadowColor = "rgba(0, 0, 0, 0.6)";
+  ctx.shadowBlur = size / 3;
+  ctx.fillStyle = "#ffffff";
+  ctx.fillText(text, rect.x + rect.width - pad, rect.y + rect.height - pad);
+  ctx.restore();
+}
 
-    const item = othersOrdered[idx];
-    const dest = layout.ringCells[idx];
-    if (!dest) throw new Error("Layout did not allocate enough cells for ring images.");
-    onProgress?.({
-      phase: "decode",
-      done: drawn,
-      total: totalToDraw,
-      message: `解码图片 ${drawn + 1}/${totalToDraw}…`,
-    });
-    const decoded = await decodeImage(item.file);
-    try {
-      onProgress?.({
-        phase: "render",
-        done: drawn,
-        total: totalToDraw,
-        message: `绘制图片 ${drawn + 1}/${totalToDraw}…`,
-      });
-      drawImageCover(ctx, decoded.source, decoded.width, decoded.height, dest);
-    } finally {
-      decoded.close?.();
+function mosaicTileItems(plan: CollagePlan): CollageImageItem[] {
+  const seen = new Set<string>();
+  const items: CollageImageItem[] = [];
+  for (const { item, role } of plan.placements) {
+    if (role !== "cell" || seen.has(item.id)) continue;
+    seen.add(item.id);
+    items.push(item);
+  }
+  return items;
+}
+
+/**
+ * Draws `rect` as a grid of `tiles`, each cell showing the photo whose average color best matches
+ * that part of `target`. Tile colors come from small fixed-size decodes and the assignment is
+ * seeded, so every strip of a tiled export picks the same tiles; only visible cells are drawn.
+ */
+async function drawMosaic(args: {
+  ctx: CollageContext2D;
+  rect: Rect;
+  target: DecodedImage;
+  targetFocus?: FocalPoint;
+  targetZoom?: number;
+  tiles: CollageImageItem[];
+  mosaic: CollageMosaicOptions;
+  seed?: number;
+  cropAnchor?: CollageCropAnchor;
+  viewport: Rect;
+  cache?: BitmapCache;
+  signal?: AbortSignal;
+  focusFor: (item: CollageImageItem, decoded: DecodedImage) => FocalPoint | undefined;
+  onProgress: (message: string) => void;
+}): Promise<void> {
+  const { ctx, rect, target, tiles, mosaic, viewport, cache, signal, focusFor } = args;
+  const grid = mosaicGrid(rect, mosaic.columns);
+  const targets = targetColors(
+    target.source,
+    computeCoverCrop(target.width, target.height, rect.width, rect.height, args.targetFocus, args.targetZoom),
+    grid.columns,
+    grid.rows,
+  );
+
+  const colors: MosaicColor[] = [];
+  const candidates: CollageImageItem[] = [];
+  const side = { x: 0, y: 0, width: TILE_ANALYSIS_SIDE, height: TILE_ANALYSIS_SIDE };
+  for (let idx = 0; idx < tiles.length; idx++) {
+    if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+    const item = tiles[idx];
+    args.onProgress(`分析马赛克图块 ${idx + 1}/${tiles.length}…`);
+    const fp = item.focalPoint;
+    const key = `${item.id}:${fp ? `${fp.x},${fp.y}` : (args.cropAnchor ?? "")}:${item.zoom ?? 1}`;
+    // A photo that fails to decode just isn't used as a tile.
+    const color = await getTileColor(key, async () => {
+      const sample = await decodeImage(item.file, decodeSizeFor(item, side));
+      const crop = computeCoverCrop(sample.width, sample.height, 1, 1, focusFor(item, sample), item.zoom);
+      return { ...sample, crop };
+    }).catch(() => null);
+    if (color) {
+      colors.push(color);
+      candidates.push(item);
     }
-    drawn += 1;
-    if (idx % 4 === 0) await nextFrame();
   }
+  if (!targets || candidates.length === 0) {
+    drawImageCover(ctx, target.source, target.width, target.height, rect, args.targetFocus, args.targetZoom);
+    return;
+  }
+
+  const assigned = assignMosaicTiles({
+    targets,
+    columns: grid.columns,
+    tiles: colors,
+    maxRepeats: mosaic.maxRepeats,
+    random: args.seed == null ? Math.random : createRandom(args.seed),
+  });
+  const cellsByTile = new Map<number, number[]>();
+  grid.cells.forEach((cell, idx) => {
+    if (assigned[idx] < 0 || !intersects(cell, viewport)) return;
+    cellsByTile.set(assigned[idx], [...(cellsByTile.get(assigned[idx]) ?? []), idx]);
+  });
 
-  if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
-  onProgress?.({
-    phase: "decode",
-    done: drawn,
-    total: totalToDraw,
-    message: "解码主图…",
+  const used = [...cellsByTile.keys()];
+  const cellSize = grid.cells.reduce((max, c) => (c.width * c.height > max.width * max.height ? c : max));
+  const pipeline = createDecodePipeline(used.length, defaultDecodeConcurrency(), (idx) => {
+    const item = candidates[used[idx]];
+    return cache ? decodeCached(cache, item, cellSize) : decodeImage(item.file, decodeSizeFor(item, cellSize));
   });
-  const mainDecoded = await decodeImage(main.file);
+  const tint = clamp(mosaic.tint, 0, 1);
+  let done = 0;
   try {
-    onProgress?.({
-      phase: "render",
-      done: drawn,
-      total: totalToDraw,
-      message: "绘制主图…",
-    });
-    drawImageCover(ctx, mainDecoded.source, mainDecoded.width, mainDecoded.height, layout.mainRect);
+    for (let idx = 0; idx < used.length; idx++) {
+      if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+      const item = candidates[used[idx]];
+      const decoded = await pipeline.take(idx);
+      try {
+        const focus = focusFor(item, decoded);
+        for (const cell of cellsByTile.get(used[idx]) ?? []) {
+          drawImageCover(ctx, decoded.source, decoded.width, decoded.height, grid.cells[cell], focus, item.zoom);
+        }
+      } finally {
+        decoded.close?.();
+      }
+      done += cellsByTile.get(used[idx])?.length ?? 0;
+      args.onProgress(`拼贴马赛克 ${done}/${grid.cells.length}…`);
+      if (idx % 8 === 0) await nextFrame();
+    }
   } finally {
-    mainDecoded.close?.();
+    pipeline.dispose();
   }
 
-  drawn += 1;
-  onProgress?.({ phase: "render", done: drawn, total: totalToDraw, message: "完成" });
+  // Tint toward the target's color so the main image reads from further away.
+  if (tint > 0) {
+    ctx.save();
+    ctx.globalAlpha = tint;
+    for (const indices of cellsByTile.values()) {
+      for (const idx of indices) {
+        const [r, g, b] = targets[idx].rgb;
+        const cell = grid.cells[idx];
+        ctx.fillStyle = `rgb(${r} ${g} ${b})`;
+        ctx.fillRect(cell.x, cell.y, cell.width, cell.height);
+      }
+    }
+    ctx.restore();
+  }
+}
+
+// Print plans keep the slug outside the bleed paper-white so the crop marks stay legible. A null
+// `background` is transparent.
+function drawBackground(ctx: CollageContext2D, plan: CollagePlan, background: string | null): void {
+  const fill = (x: number, y: number, width: number, height: number) => {
+    if (background == null) {
+      ctx.clearRect(x, y, width, height);
+      return;
+    }
+    ctx.fillStyle = background;
+    ctx.fillRect(x, y, width, height);
+  };
+  ctx.save();
+  if (plan.print?.cropMarks) {
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, plan.width, plan.height);
+    const { trim, bleed } = plan.print;
+    fill(trim.x - bleed, trim.y - bleed, trim.width + bleed * 2, trim.height + bleed * 2);
+  } else {
+    fill(0, 0, plan.width, plan.height);
+  }
+  ctx.restore();
+}
+
+function drawCropMarks(ctx: CollageContext2D, plan: CollagePlan): void {
+  const marks = plan.print?.cropMarks;
+  if (!plan.print || !marks) return;
+  const { trim } = plan.print;
+  const { offset, length } = marks;
+  const half = marks.lineWidth / 2;
+  ctx.save();
+  ctx.fillStyle = "#000000";
+  for (const x of [trim.x, trim.x + trim.width]) {
+    for (const y of [trim.y, trim.y + trim.height]) {
+      const outX = x === trim.x ? -1 : 1;
+      const outY = y === trim.y ? -1 : 1;
+      // Horizontal mark on the trim line, left/right of the corner; vertical one above/below it.
+      const hx = outX < 0 ? x - offset - length : x + offset;
+      const vy = outY < 0 ? y - offset - length : y + offset;
+      ctx.fillRect(hx, y - half, length, marks.lineWidth);
+      ctx.fillRect(x - half, vy, marks.lineWidth, length);
+    }
+  }
+  ctx.restore();
+}
+
+function placeholderColor(id: string): string {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  return `hsl(${Math.abs(hash) % 360} 35% 72%)`;
+}
+
+/**
+ * Instant low-fidelity pass: tinted boxes for every placement, or the image's thumbnail when
+ * one is at hand. Lets a preview show the layout while the full render is still running.
+ */
+export function drawCollagePlaceholder(args: {
+  canvas: HTMLCanvasElement;
+  plan: CollagePlan;
+  background: string;
+  transparent?: boolean;
+  thumbnails?: Map<string, ImageBitmap>;
+}): void {
+  const { canvas, plan, background, transparent, thumbnails } = args;
+  // A canvas keeps the alpha setting of its first context, and previews may be transparent.
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  canvas.width = plan.width;
+  canvas.height = plan.height;
+  drawBackground(ctx, plan, transparent ? null : background);
+  for (const { item, rect } of plan.placements) {
+    const thumb = thumbnails?.get(item.id);
+    if (thumb) {
+      drawImageCover(ctx, thumb, thumb.width, thumb.height, rect, item.focalPoint, item.zoom);
+    } else {
+      ctx.fillStyle = placeholderColor(item.id);
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+    }
+  }
+  drawCropMarks(ctx, plan);
 }
 
 export async function canvasToBlob(
-  canvas: HTMLCanvasElement,
+  canvas: CollageCanvas,
   type: string,
   quality?: number,
 ): Promise<Blob> {
   const safeQuality = quality == null ? undefined : clamp(quality, 0, 1);
+  if ("convertToBlob" in canvas) return canvas.convertToBlob({ type, quality: safeQuality });
   return new Promise((resolve, reject) => {
     canvas.toBlob(
       (blob) => {
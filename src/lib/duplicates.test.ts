@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  findDuplicateGroups,
+  hammingDistance,
+  pickDuplicateKeeper,
+  type DuplicateCandidate,
+  type ImageFingerprint,
+} from "./duplicates";
+
+function fingerprint(high: number, low: number, sharpness = 100): ImageFingerprint {
+  return { hash: [high >>> 0, low >>> 0], sharpness };
+}
+
+function candidate(
+  id: string,
+  fp: ImageFingerprint | undefined,
+  extra: Partial<DuplicateCandidate> = {},
+): DuplicateCandidate {
+  return { id, fingerprint: fp, width: 4000, height: 3000, bytes: 2_000_000, ...extra };
+}
+
+describe("hammingDistance", () => {
+  it("counts differing bits across both halves", () => {
+    expect(hammingDistance(fingerprint(0, 0), fingerprint(0, 0))).toBe(0);
+    expect(hammingDistance(fingerprint(0b1011, 0), fingerprint(0, 0x80000000))).toBe(4);
+    expect(hammingDistance(fingerprint(0xffffffff, 0xffffffff), fingerprint(0, 0))).toBe(64);
+  });
+});
+
+describe("findDuplicateGroups", () => {
+  it("groups a burst transitively even when its ends are too far apart", () => {
+    // Each shot is 6 bits from the previous one; first and last are 12 apart.
+    const shots = [
+      fingerprint(0x00000000, 0x12345678),
+      fingerprint(0x0000003f, 0x12345678),
+      fingerprint(0x00000fff, 0x12345678),
+    ];
+    expect(hammingDistance(shots[0], shots[2])).toBe(12);
+    const burst = shots.map((fp, idx) => candidate(`shot${idx + 1}`, fp));
+
+    const other = candidate("other", fingerprint(0xffffffff, 0xedcba987));
+    const groups = findDuplicateGroups([burst[2], other, burst[0], burst[1]]);
+    expect(groups).toEqual([{ ids: ["shot3", "shot1", "shot2"], exact: false }]);
+  });
+
+  it("doesn't group a crop with a different aspect ratio", () => {
+    const photo = candidate("photo", fingerprint(0xabcdef01, 0x23456789));
+    const crop = candidate("crop", fingerprint(0xabcdef01, 0x23456789), { width: 3000, height: 3000 });
+    expect(findDuplicateGroups([photo, crop])).toEqual([]);
+    // A slightly different aspect (here 4:3 vs 4:2.9) still counts as the same picture.
+    const resized = candidate("resized", fingerprint(0xabcdef01, 0x23456789), { width: 4000, height: 2900 });
+    expect(findDuplicateGroups([photo, crop, resized])).toEqual([{ ids: ["photo", "resized"], exact: false }]);
+  });
+
+  it("marks a group exact when hash, pixel size and file size all match", () => {
+    const fp = fingerprint(0x0f0f0f0f, 0xf0f0f0f0);
+    const groups = findDuplicateGroups([candidate("a", fp), candidate("b", { ...fp, sharpness: 5 })]);
+    expect(groups).toEqual([{ ids: ["a", "b"], exact: true }]);
+    const resaved = findDuplicateGroups([candidate("a", fp), candidate("b", fp, { bytes: 1_999_000 })]);
+    expect(resaved).toEqual([{ ids: ["a", "b"], exact: false }]);
+  });
+
+  it("skips images without a fingerprint and respects the distance limit", () => {
+    const a = candidate("a", fingerprint(0, 0));
+    const b = candidate("b", fingerprint(0, 0b111));
+    const unread = candidate("unread", undefined);
+    expect(findDuplicateGroups([a, unread, b])).toEqual([{ ids: ["a", "b"], exact: false }]);
+    expect(findDuplicateGroups([a, b], 2)).toEqual([]);
+  });
+
+  it("ignores the aspect check when a size is unknown", () => {
+    const fp = fingerprint(1, 2);
+    const unmeasured = candidate("b", fp, { width: undefined, height: undefined });
+    const groups = findDuplicateGroups([candidate("a", fp), unmeasured]);
+    expect(groups).toEqual([{ ids: ["a", "b"], exact: false }]);
+  });
+});
+
+describe("pickDuplicateKeeper", () => {
+  const blurry = candidate("blurry", fingerprint(0, 0, 40), { width: 6000, height: 4500 });
+  const sharp = candidate("sharp", fingerprint(0, 1, 250), { width: 4000, height: 3000 });
+  const sharpBigger = candidate("sharpBigger", fingerprint(0, 1, 250), { bytes: 3_000_000 });
+
+  it("keeps the preferred image (e.g. the main image) over a sharper copy", () => {
+    expect(pickDuplicateKeeper([sharp, blurry], "sharpest", new Set(["blurry"])).id).toBe("blurry");
+    expect(pickDuplicateKeeper([blurry, sharp], "largest", new Set(["sharp", "elsewhere"])).id).toBe("sharp");
+  });
+
+  it("keeps the sharpest, then the biggest file", () => {
+    expect(pickDuplicateKeeper([blurry, sharp], "sharpest").id).toBe("sharp");
+    expect(pickDuplicateKeeper([blurry, sharp, sharpBigger], "sharpest").id).toBe("sharpBigger");
+    expect(pickDuplicateKeeper([blurry, sharp], "sharpest", new Set(["elsewhere"])).id).toBe("sharp");
+  });
+
+  it("keeps the most pixels, then the biggest file", () => {
+    expect(pickDuplicateKeeper([sharp, blurry], "largest").id).toBe("blurry");
+    expect(pickDuplicateKeeper([sharp, sharpBigger], "largest").id).toBe("sharpBigger");
+  });
+});
@@ -0,0 +1,183 @@
+import type { CollageContext2D } from "./collage";
+
+// Duplicate detection: a difference hash (dHash) per image groups the same photo exported twice
+// and burst shots; a Laplacian-variance score says which of a group is the sharpest.
+
+export type ImageFingerprint = {
+  /** 64-bit dHash as two 32-bit halves (rows 0–3, rows 4–7). */
+  hash: [number, number];
+  /** Variance of the Laplacian over a fixed-size gray copy; higher = sharper. */
+  sharpness: number;
+};
+
+export type DuplicateCandidate = {
+  id: string;
+  fingerprint?: ImageFingerprint;
+  width?: number;
+  height?: number;
+  /** File size in bytes. */
+  bytes: number;
+};
+
+export type DuplicateGroup = {
+  /** Image ids in input order. */
+  ids: string[];
+  /** Every image has the same hash, pixel size and file size: almost surely the same file. */
+  exact: boolean;
+};
+
+export type DuplicateKeep = "sharpest" | "largest";
+
+/** Hashes at most this many bits apart count as the same picture. */
+export const NEAR_DUPLICATE_DISTANCE = 10;
+// Photos whose aspect ratios differ more than this (log scale) are never grouped: a crop isn't a
+// duplicate.
+const MAX_LOG_ASPECT_DIFFERENCE = 0.05;
+const SHARPNESS_SIDE = 128;
+
+let analysisCtx: CollageContext2D | null = null;
+
+function getAnalysisContext(): CollageContext2D | null {
+  if (analysisCtx) return analysisCtx;
+  if (typeof OffscreenCanvas !== "undefined") {
+    analysisCtx = new OffscreenCanvas(SHARPNESS_SIDE, SHARPNESS_SIDE).getContext("2d", { willReadFrequently: true });
+  } else if (typeof document !== "undefined") {
+    analysisCtx = document.createElement("canvas").getContext("2d", { willReadFrequently: true });
+  }
+  return analysisCtx;
+}
+
+function grayPixels(ctx: CollageContext2D, source: CanvasImageSource, width: number, height: number): Float32Array {
+  ctx.canvas.width = width;
+  ctx.canvas.height = height;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, 0, 0, width, height);
+  const data = ctx.getImageData(0, 0, width, height).data;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+}
+
+/** Fingerprint of a (small) decoded image, or null when its pixels can't be read. */
+export function computeFingerprint(
+  source: CanvasImageSource,
+  sourceW: number,
+  sourceH: number,
+): ImageFingerprint | null {
+  const ctx = getAnalysisContext();
+  if (!ctx || sourceW <= 0 || sourceH <= 0) return null;
+  try {
+    // dHash: 9×8 gray copy, one bit per horizontally adjacent pair (left brighter than right).
+    const small = grayPixels(ctx, source, 9, 8);
+    const hash: [number, number] = [0, 0];
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        const bit = small[y * 9 + x] > small[y * 9 + x + 1] ? 1 : 0;
+        const half = y < 4 ? 0 : 1;
+        hash[half] = ((hash[half] << 1) | bit) >>> 0;
+      }
+    }
+
+    const scale = SHARPNESS_SIDE / Math.max(sourceW, sourceH);
+    const w = Math.max(3, Math.round(sourceW * scale));
+    const h = Math.max(3, Math.round(sourceH * scale));
+    const gray = grayPixels(ctx, source, w, h);
+    let sum = 0;
+    let sumSq = 0;
+    for (let y = 1; y < h - 1; y++) {
+      for (let x = 1; x < w - 1; x++) {
+        const i = y * w + x;
+        const lap = gray[i - w] + gray[i + w] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+        sum += lap;
+        sumSq += lap * lap;
+      }
+    }
+    const n = (w - 2) * (h - 2);
+    return { hash, sharpness: sumSq / n - (sum / n) ** 2 };
+  } catch {
+    return null;
+  }
+}
+
+function popcount(value: number): number {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+export function hammingDistance(a: ImageFingerprint, b: ImageFingerprint): number {
+  return popcount((a.hash[0] ^ b.hash[0]) >>> 0) + popcount((a.hash[1] ^ b.hash[1]) >>> 0);
+}
+
+function aspectsMatch(a: DuplicateCandidate, b: DuplicateCandidate): boolean {
+  if (!a.width || !a.height || !b.width || !b.height) return true;
+  return Math.abs(Math.log(a.width / a.height) - Math.log(b.width / b.height)) <= MAX_LOG_ASPECT_DIFFERENCE;
+}
+
+/**
+ * Groups images whose hashes are within `NEAR_DUPLICATE_DISTANCE` of each other (transitively,
+ * so a burst forms one group). Images without a fingerprint are skipped; single images aren't
+ * returned.
+ */
+export function findDuplicateGroups(
+  items: DuplicateCandidate[],
+  maxDistance = NEAR_DUPLICATE_DISTANCE,
+): DuplicateGroup[] {
+  const hashed = items.filter((i) => i.fingerprint);
+  const parent = hashed.map((_, idx) => idx);
+  const root = (idx: number): number => {
+    let r = idx;
+    while (parent[r] !== r) r = parent[r];
+    while (parent[idx] !== r) [idx, parent[idx]] = [parent[idx], r];
+    return r;
+  };
+  for (let a = 0; a < hashed.length; a++) {
+    const fa = hashed[a].fingerprint;
+    for (let b = a + 1; b < hashed.length; b++) {
+      const fb = hashed[b].fingerprint;
+      if (!fa || !fb || hammingDistance(fa, fb) > maxDistance || !aspectsMatch(hashed[a], hashed[b])) continue;
+      parent[root(b)] = root(a);
+    }
+  }
+
+  const byRoot = new Map<number, DuplicateCandidate[]>();
+  hashed.forEach((item, idx) => byRoot.set(root(idx), [...(byRoot.get(root(idx)) ?? []), item]));
+  const groups: DuplicateGroup[] = [];
+  for (const members of byRoot.values()) {
+    if (members.length < 2) continue;
+    const [first] = members;
+    const exact = members.every(
+      (m) =>
+        m.bytes === first.bytes &&
+        m.width === first.width &&
+        m.height === first.height &&
+        m.fingerprint != null &&
+        first.fingerprint != null &&
+        hammingDistance(m.fingerprint, first.fingerprint) === 0,
+    );
+    groups.push({ ids: members.map((m) => m.id), exact });
+  }
+  return groups;
+}
+
+/**
+ * The image to keep from `group`: one listed in `prefer` (e.g. the main image) if any, else the
+ * sharpest or the one with the most pixels (then the biggest file).
+ */
+export function pickDuplicateKeeper(
+  group: DuplicateCandidate[],
+  keep: DuplicateKeep,
+  prefer?: ReadonlySet<string>,
+): DuplicateCandidate {
+  const preferred = group.find((c) => prefer?.has(c.id));
+  if (preferred) return preferred;
+  const score = (c: DuplicateCandidate) =>
+    keep === "sharpest" ? [c.fingerprint?.sharpness ?? 0, c.bytes] : [(c.width ?? 0) * (c.height ?? 0), c.bytes];
+  return group.reduce((best, c) => {
+    const [a1, a2] = score(c);
+    const [b1, b2] = score(best);
+    return a1 > b1 || (a1 === b1 && a2 > b2) ? c : best;
+  });
+}
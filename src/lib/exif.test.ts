@@ -0,0 +1,332 @@
+import { describe, expect, it } from "vitest";
+import { formatCaptureDate, parseCaptureDate, readImageMetadata } from "./exif";
+
+type Field =
+  | { tag: number; type: 2; value: string }
+  | { tag: number; type: 3 | 4; value: number[] }
+  | { tag: number; type: 5; value: [number, number][] };
+
+const MAKE = 0x010f;
+const MODEL = 0x0110;
+const ORIENTATION = 0x0112;
+const DATE_TIME = 0x0132;
+const DATE_TIME_ORIGINAL = 0x9003;
+const DATE_TIME_DIGITIZED = 0x9004;
+
+function fieldBytes(field: Field, little: boolean): Uint8Array {
+  if (field.type === 2) return new Uint8Array([...field.value].map((c) => c.charCodeAt(0)).concat(0));
+  const size = field.type === 3 ? 2 : field.type === 4 ? 4 : 8;
+  const out = new Uint8Array(size * field.value.length);
+  const view = new DataView(out.buffer);
+  field.value.forEach((v, i) => {
+    if (field.type === 3) view.setUint16(i * 2, v as number, little);
+    else if (field.type === 4) view.setUint32(i * 4, v as number, little);
+    else {
+      const [num, den] = v as [number, number];
+      view.setUint32(i * 8, num, little);
+      view.setUint32(i * 8 + 4, den, little);
+    }
+  });
+  return out;
+}
+
+/**
+ * A TIFF structure as cameras write it inside EXIF blocks: IFD0, then the Exif and GPS sub-IFDs
+ * (linked from IFD0 when given), then every value too big to sit inline.
+ */
+function tiff(little: boolean, ifd0: Field[], exif: Field[] = [], gps: Field[] = []): Uint8Array<ArrayBuffer> {
+  const ifdSize = (count: number) => 2 + count * 12 + 4;
+  const exifAt = 8 + ifdSize(ifd0.length + (exif.length ? 1 : 0) + (gps.length ? 1 : 0));
+  const gpsAt = exifAt + (exif.length ? ifdSize(exif.length) : 0);
+  const main: Field[] = [...ifd0];
+  if (exif.length) main.push({ tag: 0x8769, type: 4, value: [exifAt] });
+  if (gps.length) main.push({ tag: 0x8825, type: 4, value: [gpsAt] });
+  const ifds: [number, Field[]][] = [
+    [8, main],
+    [exifAt, exif],
+    [gpsAt, gps],
+  ];
+
+  const out = new Uint8Array(4096);
+  const view = new DataView(out.buffer);
+  out.set(little ? [0x49, 0x49] : [0x4d, 0x4d]);
+  view.setUint16(2, 42, little);
+  view.setUint32(4, 8, little);
+  let dataEnd = gpsAt + (gps.length ? ifdSize(gps.length) : 0);
+  for (const [at, fields] of ifds) {
+    if (fields.length === 0) continue;
+    let p = at;
+    view.setUint16(p, fields.length, little);
+    p += 2;
+    for (const field of fields) {
+      const bytes = fieldBytes(field, little);
+      view.setUint16(p, field.tag, little);
+      view.setUint16(p + 2, field.type, little);
+      view.setUint32(p + 4, field.type === 2 ? bytes.length : field.value.length, little);
+      if (bytes.length <= 4) out.set(bytes, p + 8);
+      else {
+        view.setUint32(p + 8, dataEnd, little);
+        out.set(bytes, dataEnd);
+        dataEnd += bytes.length + (bytes.length % 2);
+      }
+      p += 12;
+    }
+    view.setUint32(p, 0, little);
+  }
+  return out.slice(0, dataEnd);
+}
+
+function latin1(text: string): number[] {
+  return [...text].map((c) => c.charCodeAt(0));
+}
+
+function jpegSegment(marker: number, body: ArrayLike<number>): number[] {
+  const length = body.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...Array.from(body)];
+}
+
+function jpeg(...segments: number[][]): Blob {
+  const scan = jpegSegment(0xda, [1, 1, 0, 0, 63, 0]);
+  return new Blob([new Uint8Array([0xff, 0xd8, ...segments.flat(), ...scan, 0x00, 0xff, 0xd9])]);
+}
+
+function exifSegment(body: Uint8Array): number[] {
+  return jpegSegment(0xe1, [...latin1("Exif\0\0"), ...body]);
+}
+
+function xmpSegment(xml: string): number[] {
+  return jpegSegment(0xe1, [...latin1("http://ns.adobe.com/xap/1.0/\0"), ...new TextEncoder().encode(xml)]);
+}
+
+function uint32(value: number, little: boolean): number[] {
+  const out = new Uint8Array(4);
+  new DataView(out.buffer).setUint32(0, value, little);
+  return [...out];
+}
+
+// The reader doesn't check CRCs, so zeros do.
+function pngChunk(type: string, data: ArrayLike<number>): number[] {
+  return [...uint32(data.length, false), ...latin1(type), ...Array.from(data), 0, 0, 0, 0];
+}
+
+function png(...chunks: number[][]): Blob {
+  const ihdr = pngChunk("IHDR", [0, 0, 0, 1, 0, 0, 0, 1, 8, 2, 0, 0, 0]);
+  const end = pngChunk("IEND", []);
+  return new Blob([new Uint8Array([...latin1("\x89PNG\r\n\x1a\n"), ...ihdr, ...chunks.flat(), ...end])]);
+}
+
+function webp(...chunks: [string, ArrayLike<number>][]): Blob {
+  const body = chunks.flatMap(([type, data]) => [
+    ...latin1(type),
+    ...uint32(data.length, true),
+    ...Array.from(data),
+    ...(data.length % 2 ? [0] : []),
+  ]);
+  return new Blob([new Uint8Array([...latin1("RIFF"), ...uint32(body.length + 4, true), ...latin1("WEBP"), ...body])]);
+}
+
+const XMP = `<?xpacket begin="" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+        xmlns:exif="http://ns.adobe.com/exif/1.0/"
+        xmlns:tiff="http://ns.adobe.com/tiff/1.0/"
+        xmp:CreateDate="2020-01-02T03:04:05+08:00"
+        exif:GPSLatitude="37,46.5N"
+        exif:GPSLongitude="122,25,12W"
+        tiff:Orientation="3">
+      <tiff:Make>FUJIFILM</tiff:Make>
+      <tiff:Model>X100V</tiff:Model>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+describe("readImageMetadata: EXIF", () => {
+  it("reads a little-endian IFD with Exif and GPS sub-IFDs from a JPEG", async () => {
+    const body = tiff(
+      true,
+      [
+        { tag: MAKE, type: 2, value: "NIKON CORPORATION" },
+        { tag: MODEL, type: 2, value: "NIKON Z 6" },
+        { tag: ORIENTATION, type: 3, value: [8] },
+        { tag: DATE_TIME, type: 2, value: "2021:01:01 00:00:00" },
+      ],
+      [{ tag: DATE_TIME_ORIGINAL, type: 2, value: "2019:12:31 23:59:58" }],
+      [
+        { tag: 1, type: 2, value: "N" },
+        { tag: 2, type: 5, value: [[48, 1], [51, 1], [296, 10]] },
+        { tag: 3, type: 2, value: "E" },
+        { tag: 4, type: 5, value: [[2, 1], [17, 1], [402, 10]] },
+        { tag: 5, type: 3, value: [1] },
+        { tag: 6, type: 5, value: [[12, 1]] },
+      ],
+    );
+    const meta = await readImageMetadata(jpeg(jpegSegment(0xe0, latin1("JFIF\0")), exifSegment(body)));
+    expect(meta).toMatchObject({
+      takenAt: Date.UTC(2019, 11, 31, 23, 59, 58),
+      make: "NIKON CORPORATION",
+      model: "NIKON Z 6",
+      orientation: 8,
+    });
+    expect(meta.gps?.latitude).toBeCloseTo(48.858222, 5);
+    expect(meta.gps?.longitude).toBeCloseTo(2.2945, 5);
+    expect(meta.gps?.altitude).toBe(-12);
+  });
+
+  it("reads a big-endian IFD from a JPEG", async () => {
+    const body = tiff(
+      false,
+      [
+        { tag: MAKE, type: 2, value: "Canon" },
+        { tag: MODEL, type: 2, value: "EOS R5" },
+        { tag: ORIENTATION, type: 3, value: [6] },
+      ],
+      [{ tag: DATE_TIME_ORIGINAL, type: 2, value: "2023:07:14 09:05:33" }],
+      [
+        { tag: 1, type: 2, value: "S" },
+        { tag: 2, type: 5, value: [[33, 1], [52, 1], [42, 10]] },
+        { tag: 3, type: 2, value: "E" },
+        { tag: 4, type: 5, value: [[151, 1], [12, 1], [30, 1]] },
+        { tag: 6, type: 5, value: [[58, 1]] },
+      ],
+    );
+    const meta = await readImageMetadata(jpeg(exifSegment(body)));
+    expect(meta).toMatchObject({
+      takenAt: Date.UTC(2023, 6, 14, 9, 5, 33),
+      make: "Canon",
+      model: "EOS R5",
+      orientation: 6,
+    });
+    expect(meta.gps?.latitude).toBeCloseTo(-33.8678, 4);
+    expect(meta.gps?.longitude).toBeCloseTo(151.2083, 4);
+    expect(meta.gps?.altitude).toBe(58);
+  });
+
+  it("falls back from the original to the digitized and file dates", async () => {
+    const digitized = tiff(true, [{ tag: DATE_TIME, type: 2, value: "2001:01:01 00:00:00" }], [
+      { tag: DATE_TIME_DIGITIZED, type: 2, value: "2000:06:15 12:00:00" },
+    ]);
+    expect((await readImageMetadata(jpeg(exifSegment(digitized)))).takenAt).toBe(Date.UTC(2000, 5, 15, 12));
+    const fileOnly = tiff(false, [{ tag: DATE_TIME, type: 2, value: "2001:01:01 00:00:00" }]);
+    expect((await readImageMetadata(jpeg(exifSegment(fileOnly)))).takenAt).toBe(Date.UTC(2001, 0, 1));
+  });
+
+  it("reads EXIF from PNG eXIf and WebP EXIF chunks", async () => {
+    const body = tiff(false, [{ tag: MODEL, type: 2, value: "Pixel 8" }]);
+    expect(await readImageMetadata(png(pngChunk("eXIf", body)))).toEqual({ model: "Pixel 8" });
+    expect(await readImageMetadata(webp(["VP8 ", [0, 0]], ["EXIF", body]))).toEqual({ model: "Pixel 8" });
+    const withHeader = [...latin1("Exif\0\0"), ...body];
+    expect(await readImageMetadata(webp(["EXIF", withHeader]))).toEqual({ model: "Pixel 8" });
+  });
+
+  it("prefers EXIF over XMP and fills gaps from XMP", async () => {
+    const body = tiff(true, [{ tag: MAKE, type: 2, value: "SONY" }]);
+    const meta = await readImageMetadata(jpeg(exifSegment(body), xmpSegment(XMP)));
+    expect(meta.make).toBe("SONY");
+    expect(meta.model).toBe("X100V");
+  });
+
+  it("leaves out blank dates", async () => {
+    const body = tiff(true, [
+      { tag: MAKE, type: 2, value: "Canon" },
+      { tag: DATE_TIME, type: 2, value: "0000:00:00 00:00:00" },
+    ]);
+    expect(await readImageMetadata(jpeg(exifSegment(body)))).toEqual({ make: "Canon" });
+  });
+});
+
+describe("readImageMetadata: XMP only", () => {
+  const expected = {
+    takenAt: Date.UTC(2020, 0, 2, 3, 4, 5),
+    make: "FUJIFILM",
+    model: "X100V",
+    orientation: 3,
+  };
+
+  it("reads an XMP packet from a JPEG without EXIF", async () => {
+    const meta = await readImageMetadata(jpeg(xmpSegment(XMP)));
+    expect(meta).toMatchObject(expected);
+    expect(meta.gps?.latitude).toBeCloseTo(37.775, 6);
+    expect(meta.gps?.longitude).toBeCloseTo(-122.42, 6);
+    expect(meta.gps?.altitude).toBeUndefined();
+  });
+
+  it("reads XMP from PNG iTXt and WebP XMP chunks", async () => {
+    const itxt = [...latin1("XML:com.adobe.xmp\0\0\0\0\0"), ...new TextEncoder().encode(XMP)];
+    expect(await readImageMetadata(png(pngChunk("iTXt", itxt)))).toMatchObject(expected);
+    expect(await readImageMetadata(webp(["XMP ", new TextEncoder().encode(XMP)]))).toMatchObject(expected);
+  });
+});
+
+describe("readImageMetadata: damaged or missing metadata", () => {
+  const body = tiff(
+    true,
+    [
+      { tag: MAKE, type: 2, value: "NIKON CORPORATION" },
+      { tag: ORIENTATION, type: 3, value: [1] },
+    ],
+    [{ tag: DATE_TIME_ORIGINAL, type: 2, value: "2019:12:31 23:59:58" }],
+  );
+
+  it("returns nothing for an EXIF block cut off inside its first IFD", async () => {
+    const bytes = new Uint8Array([0xff, 0xd8, ...exifSegment(body)]).slice(0, 4 + 6 + 8 + 2 + 6);
+    await expect(readImageMetadata(new Blob([bytes]))).resolves.toEqual({});
+  });
+
+  it("returns nothing for a file cut off in the middle of the segment header", async () => {
+    await expect(readImageMetadata(new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0x10])]))).resolves.toEqual({});
+  });
+
+  it("returns nothing for a TIFF with a bad byte order or magic number", async () => {
+    const badOrder = body.slice();
+    badOrder.set(latin1("XX"));
+    await expect(readImageMetadata(jpeg(exifSegment(badOrder)))).resolves.toEqual({});
+    const badMagic = body.slice();
+    badMagic[2] = 43;
+    await expect(readImageMetadata(jpeg(exifSegment(badMagic)))).resolves.toEqual({});
+  });
+
+  it("returns nothing when the IFD offset points outside the block", async () => {
+    const badIfd = body.slice();
+    new DataView(badIfd.buffer).setUint32(4, 0x7fffffff, true);
+    await expect(readImageMetadata(jpeg(exifSegment(badIfd)))).resolves.toEqual({});
+  });
+
+  it("skips a value whose offset points outside the block", async () => {
+    const badValue = body.slice();
+    // The first entry (Make) keeps its text out of line; its offset is at 8 + 2 + 8.
+    new DataView(badValue.buffer).setUint32(18, 0x7fffff00, true);
+    const meta = await readImageMetadata(jpeg(exifSegment(badValue)));
+    expect(meta).toEqual({ orientation: 1, takenAt: Date.UTC(2019, 11, 31, 23, 59, 58) });
+  });
+
+  it("returns nothing for PNG and WebP files cut off inside the EXIF chunk", async () => {
+    const cut = async (blob: Blob, end: number) => readImageMetadata(blob.slice(0, end));
+    // Signature and IHDR, the chunk header, then the TIFF header and entry count.
+    await expect(cut(png(pngChunk("eXIf", body)), 33 + 8 + 10)).resolves.toEqual({});
+    // RIFF header, the chunk header, then the same.
+    await expect(cut(webp(["EXIF", body]), 12 + 8 + 10)).resolves.toEqual({});
+  });
+
+  it("returns nothing for files without metadata or in other formats", async () => {
+    await expect(readImageMetadata(jpeg(jpegSegment(0xe0, latin1("JFIF\0"))))).resolves.toEqual({});
+    await expect(readImageMetadata(new Blob(["GIF89a"]))).resolves.toEqual({});
+    await expect(readImageMetadata(new Blob([]))).resolves.toEqual({});
+  });
+});
+
+describe("parseCaptureDate / formatCaptureDate", () => {
+  it("reads EXIF and XMP dates as wall-clock UTC", () => {
+    expect(parseCaptureDate("2024:05:01 14:30:00")).toBe(Date.UTC(2024, 4, 1, 14, 30));
+    expect(parseCaptureDate("2024-05-01T14:30+02:00")).toBe(Date.UTC(2024, 4, 1, 14, 30));
+    expect(parseCaptureDate("2024-05-01")).toBe(Date.UTC(2024, 4, 1));
+    expect(parseCaptureDate("yesterday")).toBeUndefined();
+    expect(parseCaptureDate(undefined)).toBeUndefined();
+  });
+
+  it("formats the capture day", () => {
+    expect(formatCaptureDate(Date.UTC(2024, 4, 1, 23, 59))).toBe("2024-05-01");
+  });
+});
@@ -0,0 +1,264 @@
+// Reads the capture metadata cameras and editors embed: EXIF (a TIFF structure inside JPEG APP1,
+// PNG eXIf or WebP EXIF chunks) and XMP packets. Only the first part of the file is read; every
+// format keeps its metadata near the start.
+
+export type ImageGps = { latitude: number; longitude: number; altitude?: number };
+
+export type ImageMetadata = {
+  /**
+   * Capture time. Cameras record wall-clock time without a zone, so this is that wall-clock
+   * time read as UTC: good for sorting one trip's photos and for showing the date as taken.
+   */
+  takenAt?: number;
+  make?: string;
+  model?: string;
+  gps?: ImageGps;
+  /** EXIF orientation, 1 (upright) – 8. */
+  orientation?: number;
+};
+
+const HEAD_BYTES = 512 * 1024;
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_DATE_TIME_DIGITIZED = 0x9004;
+
+// Bytes per value for each TIFF field type.
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8 };
+
+type TiffValue = string | number[];
+
+function ascii(bytes: Uint8Array): string {
+  let out = "";
+  for (const b of bytes) {
+    if (b === 0) break;
+    out += String.fromCharCode(b);
+  }
+  return out.trim();
+}
+
+/** Tags of the IFD at `offset` (from the TIFF start), with values read from wherever they live. */
+function readIfd(view: DataView, tiffStart: number, offset: number, little: boolean): Map<number, TiffValue> {
+  const tags = new Map<number, TiffValue>();
+  const at = tiffStart + offset;
+  if (offset <= 0 || at + 2 > view.byteLength) return tags;
+  const count = view.getUint16(at, little);
+  for (let i = 0; i < count; i++) {
+    const entry = at + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const n = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size || n > 0x10000) continue;
+    const data = size * n <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, little);
+    if (data + size * n > view.byteLength) continue;
+    if (type === 2) {
+      tags.set(tag, ascii(new Uint8Array(view.buffer, view.byteOffset + data, n)));
+      continue;
+    }
+    const values: number[] = [];
+    for (let k = 0; k < n; k++) {
+      const p = data + k * size;
+      if (type === 3) values.push(view.getUint16(p, little));
+      else if (type === 8) values.push(view.getInt16(p, little));
+      else if (type === 4) values.push(view.getUint32(p, little));
+      else if (type === 9) values.push(view.getInt32(p, little));
+      else if (type === 5 || type === 10) {
+        const num = type === 5 ? view.getUint32(p, little) : view.getInt32(p, little);
+        const den = type === 5 ? view.getUint32(p + 4, little) : view.getInt32(p + 4, little);
+        values.push(den === 0 ? 0 : num / den);
+      } else values.push(view.getUint8(p));
+    }
+    tags.set(tag, values);
+  }
+  return tags;
+}
+
+function text(value: TiffValue | undefined): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+function numbers(value: TiffValue | undefined): number[] | undefined {
+  return Array.isArray(value) && value.length > 0 ? value : undefined;
+}
+
+/** "2024:05:01 14:30:00" (EXIF) or "2024-05-01T14:30:00+08:00" (XMP) → wall-clock ms as UTC. */
+export function parseCaptureDate(value: string | undefined): number | undefined {
+  const match = value?.match(/^(\d{4})[:-](\d{2})[:-](\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!match) return undefined;
+  const [, y, mo, d, h = "0", mi = "0", s = "0"] = match;
+  const time = Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s));
+  // Blank dates are written as "0000:00:00 00:00:00".
+  return Number(y) > 0 && Number(mo) > 0 && Number.isFinite(time) ? time : undefined;
+}
+
+function dmsToDegrees(dms: number[], ref: string | undefined): number {
+  const degrees = (dms[0] ?? 0) + (dms[1] ?? 0) / 60 + (dms[2] ?? 0) / 3600;
+  return ref === "S" || ref === "W" ? -degrees : degrees;
+}
+
+/** Parses a TIFF structure (the body of an EXIF block, after any "Exif\0\0" header). */
+function parseTiff(view: DataView, start: number): ImageMetadata {
+  if (start + 8 > view.byteLength) return {};
+  const order = view.getUint16(start);
+  if (order !== 0x4949 && order !== 0x4d4d) return {};
+  const little = order === 0x4949;
+  if (view.getUint16(start + 2, little) !== 42) return {};
+
+  const ifd0 = readIfd(view, start, view.getUint32(start + 4, little), little);
+  const exifOffset = numbers(ifd0.get(TAG_EXIF_IFD))?.[0];
+  const exif = exifOffset ? readIfd(view, start, exifOffset, little) : new Map<number, TiffValue>();
+  const gpsOffset = numbers(ifd0.get(TAG_GPS_IFD))?.[0];
+  const gpsTags = gpsOffset ? readIfd(view, start, gpsOffset, little) : new Map<number, TiffValue>();
+
+  const out: ImageMetadata = {
+    takenAt:
+      parseCaptureDate(text(exif.get(TAG_DATE_TIME_ORIGINAL))) ??
+      parseCaptureDate(text(exif.get(TAG_DATE_TIME_DIGITIZED))) ??
+      parseCaptureDate(text(ifd0.get(TAG_DATE_TIME))),
+    make: text(ifd0.get(TAG_MAKE)),
+    model: text(ifd0.get(TAG_MODEL)),
+    orientation: numbers(ifd0.get(TAG_ORIENTATION))?.[0],
+  };
+  const lat = numbers(gpsTags.get(2));
+  const lon = numbers(gpsTags.get(4));
+  if (lat && lon) {
+    const alt = numbers(gpsTags.get(6))?.[0];
+    const below = numbers(gpsTags.get(5))?.[0] === 1;
+    out.gps = {
+      latitude: dmsToDegrees(lat, text(gpsTags.get(1))),
+      longitude: dmsToDegrees(lon, text(gpsTags.get(3))),
+      altitude: alt == null ? undefined : below ? -alt : alt,
+    };
+  }
+  return out;
+}
+
+function xmpField(xml: string, name: string): string | undefined {
+  const attr = xml.match(new RegExp(`${name}="([^"]*)"`));
+  if (attr) return attr[1];
+  const element = xml.match(new RegExp(`<${name}>([^<]*)</${name}>`));
+  return element?.[1];
+}
+
+// XMP writes GPS as "37,46.5N" or "37,46,30N".
+function xmpCoordinate(value: string | undefined): number | undefined {
+  const match = value?.match(/^(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?(?:,(\d+(?:\.\d+)?))?([NSEW])$/);
+  if (!match) return undefined;
+  return dmsToDegrees([Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)], match[4]);
+}
+
+function parseXmp(xml: string): ImageMetadata {
+  const latitude = xmpCoordinate(xmpField(xml, "exif:GPSLatitude"));
+  const longitude = xmpCoordinate(xmpField(xml, "exif:GPSLongitude"));
+  const orientation = Number(xmpField(xml, "tiff:Orientation"));
+  return {
+    takenAt:
+      parseCaptureDate(xmpField(xml, "exif:DateTimeOriginal")) ??
+      parseCaptureDate(xmpField(xml, "photoshop:DateCreated")) ??
+      parseCaptureDate(xmpField(xml, "xmp:CreateDate")),
+    make: xmpField(xml, "tiff:Make"),
+    model: xmpField(xml, "tiff:Model"),
+    orientation: orientation >= 1 && orientation <= 8 ? orientation : undefined,
+    gps: latitude != null && longitude != null ? { latitude, longitude } : undefined,
+  };
+}
+
+function latin1(bytes: Uint8Array): string {
+  let out = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    out += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return out;
+}
+
+const EXIF_HEADER = "Exif\0\0";
+const XMP_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+
+// JPEG: walk the marker segments up to the image data, collecting APP1 EXIF / XMP blocks.
+function scanJpeg(view: DataView, bytes: Uint8Array, found: { exif: ImageMetadata[]; xmp: string[] }): void {
+  let p = 2;
+  while (p + 4 <= view.byteLength && view.getUint8(p) === 0xff) {
+    const marker = view.getUint8(p + 1);
+    if (marker === 0xd9 || marker === 0xda) break;
+    const length = view.getUint16(p + 2);
+    const body = p + 4;
+    if (marker === 0xe1) {
+      const head = latin1(bytes.subarray(body, body + XMP_HEADER.length));
+      if (head.startsWith(EXIF_HEADER)) found.exif.push(parseTiff(view, body + EXIF_HEADER.length));
+      else if (head === XMP_HEADER) {
+        found.xmp.push(new TextDecoder().decode(bytes.subarray(body + XMP_HEADER.length, p + 2 + length)));
+      }
+    }
+    p += 2 + length;
+  }
+}
+
+// PNG: eXIf chunks hold a bare TIFF structure; XMP sits in an iTXt chunk keyed "XML:com.adobe.xmp".
+function scanPng(view: DataView, bytes: Uint8Array, found: { exif: ImageMetadata[]; xmp: string[] }): void {
+  let p = 8;
+  while (p + 8 <= view.byteLength) {
+    const length = view.getUint32(p);
+    const type = latin1(bytes.subarray(p + 4, p + 8));
+    const body = p + 8;
+    if (type === "IEND") break;
+    if (type === "eXIf") found.exif.push(parseTiff(view, body));
+    if (type === "iTXt" && latin1(bytes.subarray(body, body + 17)) === "XML:com.adobe.xmp") {
+      found.xmp.push(new TextDecoder().decode(bytes.subarray(body, Math.min(body + length, bytes.length))));
+    }
+    p = body + length + 4;
+  }
+}
+
+// WebP: RIFF chunks "EXIF" (TIFF, sometimes still behind an "Exif\0\0" header) and "XMP ".
+function scanWebp(view: DataView, bytes: Uint8Array, found: { exif: ImageMetadata[]; xmp: string[] }): void {
+  let p = 12;
+  while (p + 8 <= view.byteLength) {
+    const type = latin1(bytes.subarray(p, p + 4));
+    const length = view.getUint32(p + 4, true);
+    const body = p + 8;
+    if (type === "EXIF") {
+      const skip = latin1(bytes.subarray(body, body + 6)) === EXIF_HEADER ? 6 : 0;
+      found.exif.push(parseTiff(view, body + skip));
+    }
+    if (type === "XMP ") found.xmp.push(new TextDecoder().decode(bytes.subarray(body, body + length)));
+    p = body + length + (length % 2);
+  }
+}
+
+/** EXIF fields win over XMP ones; a file without metadata yields `{}`. */
+export async function readImageMetadata(file: Blob): Promise<ImageMetadata> {
+  const bytes = new Uint8Array(await file.slice(0, HEAD_BYTES).arrayBuffer());
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const found = { exif: [] as ImageMetadata[], xmp: [] as string[] };
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) scanJpeg(view, bytes, found);
+    else if (latin1(bytes.subarray(0, 8)) === "\x89PNG\r\n\x1a\n") scanPng(view, bytes, found);
+    else if (latin1(bytes.subarray(0, 4)) === "RIFF" && latin1(bytes.subarray(8, 12)) === "WEBP") {
+      scanWebp(view, bytes, found);
+    }
+  } catch {
+    // A truncated or malformed block: keep whatever was read before it.
+  }
+
+  const merged: ImageMetadata = {};
+  for (const part of [...found.exif, ...found.xmp.map(parseXmp)]) {
+    merged.takenAt ??= part.takenAt;
+    merged.make ??= part.make;
+    merged.model ??= part.model;
+    merged.gps ??= part.gps;
+    merged.orientation ??= part.orientation;
+  }
+  return Object.fromEntries(Object.entries(merged).filter(([, v]) => v !== undefined)) as ImageMetadata;
+}
+
+/** "2024-05-01" for a `takenAt` value. */
+export function formatCaptureDate(takenAt: number): string {
+  return new Date(takenAt).toISOString().slice(0, 10);
+}
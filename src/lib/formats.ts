@@ -0,0 +1,88 @@
+import { canvasToBlob, type CollageCanvas, type CollageContext2D } from "./collage";
+import { supportsWorkerRendering } from "./render";
+
+export type ExportFormat = "image/png" | "image/jpeg" | "image/webp" | "image/avif" | "application/pdf";
+
+export type ExportFormatInfo = {
+  type: ExportFormat;
+  label: string;
+  extension: string;
+  /** Lossy formats take a quality setting; this is its starting value. */
+  defaultQuality?: number;
+  /** Encoded by the browser's canvas, so support has to be probed. */
+  probe?: boolean;
+  /** Keeps transparency. */
+  alpha?: boolean;
+};
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { type: "image/png", label: "PNG", extension: "png", alpha: true },
+  { type: "image/jpeg", label: "JPEG", extension: "jpg", defaultQuality: 0.92 },
+  { type: "image/webp", label: "WebP", extension: "webp", defaultQuality: 0.9, probe: true, alpha: true },
+  // AVIF holds up at much lower quality settings than JPEG / WebP.
+  { type: "image/avif", label: "AVIF", extension: "avif", defaultQuality: 0.6, probe: true, alpha: true },
+  // Quality applies to the JPEG strips the PDF embeds.
+  { type: "application/pdf", label: "PDF", extension: "pdf", defaultQuality: 0.92 },
+];
+
+export function exportFormatInfo(type: string): ExportFormatInfo | undefined {
+  return EXPORT_FORMATS.find((f) => f.type === type);
+}
+
+function createProbeCanvas(): CollageCanvas {
+  // Probe the canvas kind that will do the encoding: the worker uses OffscreenCanvas.
+  if (supportsWorkerRendering()) return new OffscreenCanvas(2, 2);
+  const canvas = document.createElement("canvas");
+  canvas.width = 2;
+  canvas.height = 2;
+  return canvas;
+}
+
+let probed: Promise<Set<ExportFormat>> | null = null;
+
+/**
+ * Formats the browser can actually encode. Canvases silently fall back to PNG for types they
+ * don't support, so each probed type is checked against the MIME type of a real encode.
+ */
+export function probeExportFormats(): Promise<Set<ExportFormat>> {
+  probed ??= (async () => {
+    const supported = new Set<ExportFormat>();
+    const canvas = createProbeCanvas();
+    const ctx = canvas.getContext("2d") as CollageContext2D | null;
+    if (ctx) {
+      ctx.fillStyle = "#808080";
+      ctx.fillRect(0, 0, 2, 2);
+    }
+    for (const format of EXPORT_FORMATS) {
+      if (!format.probe) {
+        supported.add(format.type);
+        continue;
+      }
+      try {
+        const blob = await canvasToBlob(canvas, format.type, format.defaultQuality);
+        if (blob.type === format.type) supported.add(format.type);
+      } catch {
+        // Treat encoder errors as unsupported.
+      }
+    }
+    return supported;
+  })();
+  return probed;
+}
+
+/**
+ * Rough size of the final file: encodes the (smaller) preview `canvas` in the export format and
+ * scales by pixel count. PDFs are estimated from their embedded JPEG.
+ */
+export async function estimateExportSize(args: {
+  canvas: HTMLCanvasElement;
+  type: ExportFormat;
+  quality?: number;
+  pixels: number;
+}): Promise<number> {
+  const { canvas, type, quality, pixels } = args;
+  const encodeAs = type === "application/pdf" ? "image/jpeg" : type;
+  const blob = await canvasToBlob(canvas, encodeAs, quality);
+  const previewPixels = Math.max(1, canvas.width * canvas.height);
+  return Math.round(blob.size * (pixels / previewPixels));
+}
@@ -0,0 +1,201 @@
+import { describe, expect, it } from "vitest";
+import { planCollage, type CollageImageItem, type RenderCollageOptions } from "./collage";
+import {
+  buildCollageManifest,
+  hashFile,
+  matchManifestImages,
+  parseCollageManifest,
+  planMatchesManifest,
+  type CollageManifest,
+  type CollageManifestImage,
+} from "./manifest";
+
+const OPTIONS: RenderCollageOptions = {
+  width: 900,
+  height: 600,
+  mainRatio: 0.5,
+  gap: 4,
+  background: "#ffffff",
+  shuffleOthers: false,
+  useMain: true,
+};
+
+function photo(id: string, name: string, content: string, size?: { width: number; height: number }) {
+  return { id, file: new File([content], name, { type: "image/jpeg" }), ...size } satisfies CollageImageItem;
+}
+
+async function entry(item: CollageImageItem, extra: Partial<CollageManifestImage> = {}): Promise<CollageManifestImage> {
+  return {
+    id: item.id,
+    filename: item.file.name,
+    size: item.file.size,
+    hash: await hashFile(item.file),
+    width: 400,
+    height: 300,
+    ...extra,
+  };
+}
+
+function manifest(images: CollageManifestImage[], mainId: string | null = null): CollageManifest {
+  return {
+    format: "smartcollage-manifest",
+    version: 1,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    canvas: { width: OPTIONS.width, height: OPTIONS.height },
+    mainId,
+    options: OPTIONS,
+    images,
+    tiles: [],
+  };
+}
+
+describe("parseCollageManifest", () => {
+  const valid = JSON.stringify(manifest([{ id: "a", filename: "a.jpg", size: 1, hash: "", width: 1, height: 1 }]));
+
+  it("accepts a well-formed manifest", () => {
+    expect(parseCollageManifest(valid).images[0].filename).toBe("a.jpg");
+  });
+
+  it("rejects text that isn't JSON", () => {
+    expect(() => parseCollageManifest("{ nope")).toThrow("布局清单不是有效的 JSON 文件。");
+    expect(() => parseCollageManifest("")).toThrow("布局清单不是有效的 JSON 文件。");
+  });
+
+  it("rejects JSON that isn't a manifest", () => {
+    for (const text of ["null", "[]", "42", '{"format":"smartcollage-project","version":1}']) {
+      expect(() => parseCollageManifest(text)).toThrow("不是 SmartCollage 布局清单文件。");
+    }
+  });
+
+  it("rejects manifests from a newer version or without one", () => {
+    const newer = { ...JSON.parse(valid), version: 2 };
+    expect(() => parseCollageManifest(JSON.stringify(newer))).toThrow("布局清单版本过新，请升级后再导入。");
+    const unversioned = { ...JSON.parse(valid), version: "1" };
+    expect(() => parseCollageManifest(JSON.stringify(unversioned))).toThrow("布局清单版本过新，请升级后再导入。");
+  });
+
+  it("rejects manifests with missing or mistyped parts", () => {
+    const base = JSON.parse(valid);
+    const broken = [
+      { ...base, options: null },
+      { ...base, options: { ...base.options, width: "900" } },
+      { ...base, images: {} },
+      { ...base, tiles: undefined },
+      { ...base, images: [{ id: "a" }] },
+      { ...base, images: [null] },
+    ];
+    for (const data of broken) {
+      expect(() => parseCollageManifest(JSON.stringify(data))).toThrow("布局清单内容不完整。");
+    }
+  });
+});
+
+describe("matchManifestImages", () => {
+  it("matches by content hash even when the photo was renamed", async () => {
+    const original = photo("old-a", "IMG_0001.jpg", "pixels of a");
+    const renamed = photo("new-a", "holiday-1.jpg", "pixels of a");
+    const source = await entry(original, { focalPoint: { x: 0.2, y: 0.8 }, zoom: 1.4, weight: 2 });
+    const result = await matchManifestImages({ manifest: manifest([source], "old-a"), images: [renamed] });
+
+    expect(result.ids).toEqual(new Map([["old-a", "new-a"]]));
+    expect(result.mainId).toBe("new-a");
+    expect(result.missing).toEqual([]);
+    expect(result.images).toEqual([
+      { ...renamed, focalPoint: { x: 0.2, y: 0.8 }, zoom: 1.4, weight: 2, width: 400, height: 300 },
+    ]);
+  });
+
+  it("tells photos with the same filename apart by their contents", async () => {
+    const first = photo("one", "IMG_0001.jpg", "first camera");
+    const second = photo("two", "IMG_0001.jpg", "second camera");
+    // The manifest lists them the other way round, under their old ids.
+    const sources = [await entry(second, { id: "m2" }), await entry(first, { id: "m1" })];
+    const result = await matchManifestImages({ manifest: manifest(sources), images: [first, second] });
+    expect(result.ids).toEqual(
+      new Map([
+        ["m2", "two"],
+        ["m1", "one"],
+      ]),
+    );
+    expect(result.images.map((i) => i.id)).toEqual(["two", "one"]);
+  });
+
+  it("falls back to filename and size, using each photo once", async () => {
+    const a = photo("a", "same.jpg", "aaaa");
+    const b = photo("b", "same.jpg", "bbbb");
+    const sources = [
+      { ...(await entry(a, { id: "m1" })), hash: "" },
+      { ...(await entry(a, { id: "m2" })), hash: "" },
+      { ...(await entry(a, { id: "m3" })), hash: "" },
+    ];
+    const result = await matchManifestImages({ manifest: manifest(sources, "m3"), images: [a, b] });
+    expect(result.ids).toEqual(
+      new Map([
+        ["m1", "a"],
+        ["m2", "b"],
+      ]),
+    );
+    expect(result.missing.map((m) => m.id)).toEqual(["m3"]);
+    expect(result.mainId).toBeNull();
+  });
+
+  it("doesn't fall back to a filename whose size differs", async () => {
+    const edited = photo("a", "IMG_0001.jpg", "edited and longer");
+    const source = await entry(photo("x", "IMG_0001.jpg", "original"));
+    const result = await matchManifestImages({ manifest: manifest([source]), images: [edited] });
+    expect(result.missing).toEqual([source]);
+    expect(result.images).toEqual([edited]);
+    expect(result.extra).toBe(1);
+  });
+
+  it("appends photos the manifest doesn't know and keeps their own sizes", async () => {
+    const known = photo("k", "k.jpg", "known", { width: 1000, height: 500 });
+    const extra = photo("e", "e.jpg", "extra");
+    const result = await matchManifestImages({ manifest: manifest([await entry(known)]), images: [extra, known] });
+    expect(result.images.map((i) => [i.id, i.width, i.height])).toEqual([
+      ["k", 1000, 500],
+      ["e", undefined, undefined],
+    ]);
+    expect(result.extra).toBe(1);
+  });
+
+  it("stops when aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const a = photo("a", "a.jpg", "a");
+    await expect(
+      matchManifestImages({ manifest: manifest([await entry(a)]), images: [a], signal: controller.signal }),
+    ).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
+
+describe("planMatchesManifest", () => {
+  const images = Array.from({ length: 7 }, (_, i) =>
+    photo(`p${i}`, `p${i}.jpg`, `photo ${i}`, { width: 400 + i * 10, height: 300 }),
+  );
+
+  it("accepts the same collage planned again from matched photos", async () => {
+    const built = await buildCollageManifest({ images, mainId: "p0", options: OPTIONS });
+    const parsed = parseCollageManifest(JSON.stringify(built));
+    const renamed = images.map((item) => ({ ...item, id: `new-${item.id}` }));
+    const matched = await matchManifestImages({ manifest: parsed, images: [...renamed].reverse() });
+    expect(matched.missing).toEqual([]);
+
+    const plan = planCollage({ images: matched.images, mainId: matched.mainId ?? "", options: parsed.options });
+    expect(planMatchesManifest(plan, parsed, matched.ids)).toBe(true);
+  });
+
+  it("rejects a plan with a moved tile, another size or unmatched ids", async () => {
+    const built = await buildCollageManifest({ images, mainId: "p0", options: OPTIONS });
+    const ids = new Map(images.map((i) => [i.id, i.id]));
+    const plan = planCollage({ images, mainId: "p0", options: OPTIONS });
+    expect(planMatchesManifest(plan, built, ids)).toBe(true);
+
+    const [first, ...rest] = plan.placements;
+    const moved = { ...plan, placements: [{ ...first, rect: { ...first.rect, x: first.rect.x + 1 } }, ...rest] };
+    expect(planMatchesManifest(moved, built, ids)).toBe(false);
+    expect(planMatchesManifest({ ...plan, width: plan.width + 1 }, built, ids)).toBe(false);
+    expect(planMatchesManifest({ ...plan, placements: rest }, built, ids)).toBe(false);
+    expect(planMatchesManifest(plan, built, new Map())).toBe(false);
+  });
+});
@@ -0,0 +1,283 @@
+import {
+  computeCoverCrop,
+  measureImage,
+  planCollage,
+  resolveImageSizes,
+  type CollageImageItem,
+  type CollagePlan,
+  type CollageProgress,
+  type FocalPoint,
+  type Rect,
+  type RenderCollageOptions,
+} from "./collage";
+import type { PrintSettings } from "./print";
+import { computeFocalPoint } from "./saliency";
+
+export const MANIFEST_FORMAT = "smartcollage-manifest";
+export const MANIFEST_VERSION = 1;
+
+/** One source photo, in the input order the layout was planned from. */
+export type CollageManifestImage = {
+  id: string;
+  filename: string;
+  /** File size in bytes. */
+  size: number;
+  /** "sha256:<hex>" of the file contents. */
+  hash: string;
+  /** Native pixel size after EXIF orientation. */
+  width: number;
+  height: number;
+  focalPoint?: FocalPoint;
+  zoom?: number;
+  weight?: number;
+};
+
+/** One drawn tile, in draw order. All rects are in pixels of the exported file. */
+export type CollageManifestTile = {
+  imageId: string;
+  filename: string;
+  hash: string;
+  role: "main" | "cell";
+  rect: Rect;
+  /** Part of the source image (native pixels) scaled into `rect`. */
+  crop: Rect;
+};
+
+export type CollageManifest = {
+  format: typeof MANIFEST_FORMAT;
+  version: number;
+  createdAt: string;
+  /** Pixel size of the exported file; `trim` / `bleed` are present for print layouts. */
+  canvas: { width: number; height: number; trim?: Rect; bleed?: number };
+  /** Physical size the file was laid out for (print mode only). */
+  physical?: PrintSettings;
+  mainId: string | null;
+  options: RenderCollageOptions;
+  images: CollageManifestImage[];
+  tiles: CollageManifestTile[];
+};
+
+function abortError(): DOMException {
+  return new DOMException("Aborted", "AbortError");
+}
+
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", await file.arrayBuffer()));
+  return `sha256:${Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+// Saliency works on a 64 px copy, so a small decode yields the same focus the renderer uses.
+const FOCUS_ANALYSIS_SIDE = 128;
+
+/**
+ * Describes the collage `options` produce for `images`: every tile's rect, the image and crop
+ * drawn into it, and everything needed to plan the same collage again.
+ */
+export async function buildCollageManifest(args: {
+  images: CollageImageItem[];
+  mainId: string;
+  options: RenderCollageOptions;
+  physical?: PrintSettings;
+  signal?: AbortSignal;
+  onProgress?: (progress: CollageProgress) => void;
+}): Promise<CollageManifest> {
+  const { mainId, options, physical, signal, onProgress } = args;
+  if (args.images.length === 0) throw new Error("No images provided.");
+
+  const needsFocus = options.cropAnchor === "saliency";
+  const images: CollageImageItem[] = [];
+  const focus = new Map<string, FocalPoint | undefined>();
+  const hashes = new Map<string, string>();
+  for (let idx = 0; idx < args.images.length; idx++) {
+    if (signal?.aborted) throw abortError();
+    const item = args.images[idx];
+    onProgress?.({
+      phase: "layout",
+      done: idx,
+      total: args.images.length,
+      message: `分析图片 ${idx + 1}/${args.images.length}…`,
+    });
+    let sized = item;
+    let point = item.focalPoint;
+    if (!item.width || !item.height || (needsFocus && !point)) {
+      const measured = await measureImage(item.file, needsFocus && !point ? FOCUS_ANALYSIS_SIDE : undefined);
+      sized = { ...item, width: measured.width, height: measured.height };
+      if (measured.thumbnail) {
+        point = computeFocalPoint(measured.thumbnail, measured.thumbnail.width, measured.thumbnail.height);
+        measured.thumbnail.close();
+      }
+    }
+    images.push(sized);
+    focus.set(item.id, point);
+    hashes.set(item.id, await hashFile(item.file));
+  }
+
+  // Color-sorted rings also need each image's colors.
+  const plan = planCollage({
+    images: await resolveImageSizes({ images, mainId, options, signal, onProgress }),
+    mainId,
+    options,
+  });
+  const tiles = plan.placements.map(({ item, rect, role }): CollageManifestTile => ({
+    imageId: item.id,
+    filename: item.file.name,
+    hash: hashes.get(item.id) ?? "",
+    role,
+    rect,
+    crop: computeCoverCrop(
+      item.width ?? 1,
+      item.height ?? 1,
+      rect.width,
+      rect.height,
+      focus.get(item.id),
+      item.zoom,
+    ),
+  }));
+
+  onProgress?.({ phase: "export", done: 1, total: 1, message: "布局清单已生成" });
+  return {
+    format: MANIFEST_FORMAT,
+    version: MANIFEST_VERSION,
+    createdAt: new Date().toISOString(),
+    canvas: {
+      width: plan.width,
+      height: plan.height,
+      ...(plan.print ? { trim: plan.print.trim, bleed: plan.print.bleed } : {}),
+    },
+    physical,
+    mainId: options.useMain ? (images.find((i) => i.id === mainId) ?? images[0]).id : null,
+    options,
+    images: images.map((item) => ({
+      id: item.id,
+      filename: item.file.name,
+      size: item.file.size,
+      hash: hashes.get(item.id) ?? "",
+      width: item.width ?? 0,
+      height: item.height ?? 0,
+      focalPoint: item.focalPoint,
+      zoom: item.zoom,
+      weight: item.weight,
+    })),
+    tiles,
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value != null && !Array.isArray(value);
+}
+
+/** Parses and sanity-checks a manifest file; throws a user-facing error if it isn't one. */
+export function parseCollageManifest(text: string): CollageManifest {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("布局清单不是有效的 JSON 文件。");
+  }
+  if (!isObject(data) || data.format !== MANIFEST_FORMAT) throw new Error("不是 SmartCollage 布局清单文件。");
+  if (typeof data.version !== "number" || data.version > MANIFEST_VERSION) {
+    throw new Error("布局清单版本过新，请升级后再导入。");
+  }
+  const options = data.options;
+  if (
+    !isObject(options) ||
+    typeof options.width !== "number" ||
+    typeof options.height !== "number" ||
+    !Array.isArray(data.images) ||
+    !Array.isArray(data.tiles) ||
+    !data.images.every((i) => isObject(i) && typeof i.id === "string" && typeof i.filename === "string")
+  ) {
+    throw new Error("布局清单内容不完整。");
+  }
+  return data as unknown as CollageManifest;
+}
+
+/**
+ * Lines `images` (the photos the user loaded) up with the manifest's: by content hash, falling
+ * back to filename + size. Matched photos come first in manifest order with the manifest's focal
+ * points and sizes applied; photos the manifest doesn't know are appended after them.
+ */
+export async function matchManifestImages<T extends CollageImageItem>(args: {
+  manifest: CollageManifest;
+  images: T[];
+  signal?: AbortSignal;
+  onProgress?: (progress: CollageProgress) => void;
+}): Promise<{
+  images: T[];
+  mainId: string | null;
+  /** Manifest image id → id of the matched photo. */
+  ids: Map<string, string>;
+  missing: CollageManifestImage[];
+  extra: number;
+}> {
+  const { manifest, images, signal, onProgress } = args;
+  const byHash = new Map<string, T[]>();
+  if (manifest.images.some((i) => i.hash)) {
+    for (let idx = 0; idx < images.length; idx++) {
+      if (signal?.aborted) throw abortError();
+      onProgress?.({
+        phase: "layout",
+        done: idx,
+        total: images.length,
+        message: `计算文件指纹 ${idx + 1}/${images.length}…`,
+      });
+      const hash = await hashFile(images[idx].file);
+      byHash.set(hash, [...(byHash.get(hash) ?? []), images[idx]]);
+    }
+  }
+
+  const used = new Set<T>();
+  const take = (candidates: T[] | undefined) => {
+    const found = candidates?.find((c) => !used.has(c));
+    if (found) used.add(found);
+    return found;
+  };
+
+  const ordered: T[] = [];
+  const ids = new Map<string, string>();
+  const missing: CollageManifestImage[] = [];
+  for (const source of manifest.images) {
+    const match =
+      take(source.hash ? byHash.get(source.hash) : undefined) ??
+      take(images.filter((i) => i.file.name === source.filename && i.file.size === source.size));
+    if (!match) {
+      missing.push(source);
+      continue;
+    }
+    ids.set(source.id, match.id);
+    ordered.push({
+      ...match,
+      focalPoint: source.focalPoint,
+      zoom: source.zoom,
+      weight: source.weight,
+      width: match.width ?? (source.width || undefined),
+      height: match.height ?? (source.height || undefined),
+    });
+  }
+  const extras = images.filter((i) => !used.has(i));
+  return {
+    images: [...ordered, ...extras],
+    mainId: manifest.mainId ? (ids.get(manifest.mainId) ?? null) : null,
+    ids,
+    missing,
+    extra: extras.length,
+  };
+}
+
+/** Whether `plan` puts every manifest tile at the same rect (within rounding). */
+export function planMatchesManifest(plan: CollagePlan, manifest: CollageManifest, ids: Map<string, string>): boolean {
+  if (plan.width !== manifest.canvas.width || plan.height !== manifest.canvas.height) return false;
+  if (plan.placements.length !== manifest.tiles.length) return false;
+  const rects = new Map(plan.placements.map((p) => [p.item.id, p.rect]));
+  const close = (a: number, b: number) => Math.abs(a - b) < 0.5;
+  return manifest.tiles.every((tile) => {
+    const rect = rects.get(ids.get(tile.imageId) ?? "");
+    return (
+      rect != null &&
+      close(rect.x, tile.rect.x) &&
+      close(rect.y, tile.rect.y) &&
+      close(rect.width, tile.rect.width) &&
+      close(rect.height, tile.rect.height)
+    );
+  });
+}
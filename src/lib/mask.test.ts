@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import type { Rect } from "./collage";
+import { layoutMaskedGrid, shapeMask, type CollageMask } from "./mask";
+
+// A mask that is set (or clear) everywhere.
+function solid(width: number, height: number, value = 255): CollageMask {
+  return { width, height, data: Buffer.from(new Uint8Array(width * height).fill(value)).toString("base64") };
+}
+
+function overlaps(a: Rect, b: Rect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function inside(inner: Rect, outer: Rect): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+const SQUARE: Rect = { x: 0, y: 0, width: 20, height: 20 };
+
+describe("layoutMaskedGrid", () => {
+  it("uses the coarsest grid that holds every cell", () => {
+    const layout = layoutMaskedGrid({ rect: SQUARE, mask: solid(4, 4), count: 9, gap: 1 });
+    expect(layout?.mainRect).toBeNull();
+    expect(layout?.cells).toHaveLength(9);
+    expect(layout?.cells.slice(0, 3)).toEqual([
+      { x: 0, y: 0, width: 6, height: 6 },
+      { x: 7, y: 0, width: 6, height: 6 },
+      { x: 14, y: 0, width: 6, height: 6 },
+    ]);
+  });
+
+  it("centers the shape in the rect at its own aspect", () => {
+    const rect: Rect = { x: 0, y: 0, width: 100, height: 40 };
+    const layout = layoutMaskedGrid({ rect, mask: solid(2, 1), count: 2, gap: 0 });
+    expect(layout?.cells).toEqual([
+      { x: 10, y: 0, width: 40, height: 40 },
+      { x: 50, y: 0, width: 40, height: 40 },
+    ]);
+  });
+
+  it("shrinks the gap when the shape is too small for the requested one", () => {
+    // Five columns of 1px cells don't fit 20px with 8px (or 4px) gaps, but do with 2px ones.
+    const layout = layoutMaskedGrid({ rect: SQUARE, mask: solid(4, 4), count: 25, gap: 8 });
+    expect(layout?.cells).toHaveLength(25);
+    const [first, second] = layout!.cells;
+    expect(second.x - (first.x + first.width)).toBe(2);
+    for (const cell of layout!.cells) expect(inside(cell, SQUARE)).toBe(true);
+  });
+
+  it("drops the gap entirely as a last resort", () => {
+    const layout = layoutMaskedGrid({ rect: SQUARE, mask: solid(4, 4), count: 400, gap: 8 });
+    expect(layout?.cells).toHaveLength(400);
+    expect(layout?.cells[1].x).toBe(layout!.cells[0].x + layout!.cells[0].width);
+  });
+
+  it("gives up when even a gapless grid can't hold every cell", () => {
+    expect(layoutMaskedGrid({ rect: SQUARE, mask: solid(4, 4), count: 401, gap: 8 })).toBeNull();
+  });
+
+  it("gives up on an empty or broken mask", () => {
+    expect(layoutMaskedGrid({ rect: SQUARE, mask: solid(4, 4, 0), count: 1, gap: 0 })).toBeNull();
+    expect(layoutMaskedGrid({ rect: SQUARE, mask: { width: 4, height: 4, data: "" }, count: 1, gap: 0 })).toBeNull();
+  });
+
+  it("keeps cells inside the shape", () => {
+    const rect: Rect = { x: 0, y: 0, width: 400, height: 400 };
+    const layout = layoutMaskedGrid({ rect, mask: shapeMask("circle"), count: 30, gap: 4 });
+    expect(layout?.cells).toHaveLength(30);
+    const corners: Rect[] = [
+      { x: 0, y: 0, width: 40, height: 40 },
+      { x: 360, y: 0, width: 40, height: 40 },
+      { x: 0, y: 360, width: 40, height: 40 },
+      { x: 360, y: 360, width: 40, height: 40 },
+    ];
+    for (const cell of layout!.cells) {
+      expect(inside(cell, rect)).toBe(true);
+      for (const corner of corners) expect(overlaps(cell, corner)).toBe(false);
+    }
+  });
+
+  describe("with a main block", () => {
+    const rect: Rect = { x: 0, y: 0, width: 600, height: 600 };
+
+    it("reserves a square near the middle of the shape that no cell overlaps", () => {
+      const layout = layoutMaskedGrid({ rect, mask: shapeMask("heart"), count: 24, gap: 4, mainRatio: 0.5 });
+      const main = layout?.mainRect;
+      expect(layout?.cells).toHaveLength(24);
+      expect(main).not.toBeNull();
+      // Square in cells; the heart's cells are only nearly square in pixels.
+      expect(main!.width / main!.height).toBeCloseTo(1, 1);
+      expect(inside(main!, rect)).toBe(true);
+      for (const cell of layout!.cells) expect(overlaps(cell, main!)).toBe(false);
+    });
+
+    it("sizes the block against the shape's extent", () => {
+      const small = layoutMaskedGrid({ rect, mask: solid(8, 8), count: 20, gap: 0, mainRatio: 0.25 });
+      const large = layoutMaskedGrid({ rect, mask: solid(8, 8), count: 20, gap: 0, mainRatio: 0.75 });
+      expect(small?.cells).toHaveLength(20);
+      expect(large?.cells).toHaveLength(20);
+      expect(large!.mainRect!.width).toBeGreaterThan(small!.mainRect!.width);
+      expect(large!.mainRect!.width / rect.width).toBeCloseTo(0.75, 1);
+    });
+
+    it("needs room for the cells around the block too", () => {
+      expect(layoutMaskedGrid({ rect: SQUARE, mask: solid(4, 4), count: 396, gap: 0, mainRatio: 0.5 })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,418 @@
+import type { Rect } from "./collage";
+
+// Shape masks: a small coverage raster (heart, text, an uploaded silhouette) that the layout
+// turns into grid cells, so photos only fill the shape and the rest stays background.
+
+/**
+ * Coverage raster, stretched over the mask's own aspect (it is fitted into the canvas without
+ * distortion). `data` is base64 of one byte per sample, row-major, 0 = outside and 255 = inside,
+ * so the mask survives JSON (manifests, project files) and worker messages unchanged.
+ */
+export type CollageMask = { width: number; height: number; data: string };
+
+export type MaskShape = "heart" | "circle" | "star" | "hexagon";
+
+/** Long side of generated masks, in samples. */
+export const MASK_MAX_SIDE = 160;
+
+// A cell belongs to the shape when at least this much of it is covered.
+const CELL_COVERAGE = 0.5;
+const MAX_GRID_COLUMNS = 512;
+
+type Point = { x: number; y: number };
+
+function clampNumber(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function splitEvenly(total: number, parts: number): number[] {
+  const base = Math.floor(total / parts);
+  const rem = total - base * parts;
+  return Array.from({ length: parts }, (_, i) => base + (i < rem ? 1 : 0));
+}
+
+function encodeMaskData(samples: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < samples.length; i += 0x8000) {
+    binary += String.fromCharCode(...samples.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+let decoded: { data: string; samples: Uint8Array } | null = null;
+
+// Planning runs often with the same mask; keep the last decode around.
+function maskSamples(mask: CollageMask): Uint8Array {
+  if (decoded?.data === mask.data) return decoded.samples;
+  const binary = atob(mask.data);
+  const samples = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) samples[i] = binary.charCodeAt(i);
+  decoded = { data: mask.data, samples };
+  return samples;
+}
+
+function isUsable(mask: CollageMask, samples: Uint8Array): boolean {
+  return mask.width > 0 && mask.height > 0 && samples.length >= mask.width * mask.height;
+}
+
+function shapePolygon(shape: MaskShape): Point[] {
+  const points: Point[] = [];
+  if (shape === "heart") {
+    // The classic parametric heart; y flipped so the point faces down.
+    for (let i = 0; i < 240; i++) {
+      const t = (i / 240) * Math.PI * 2;
+      points.push({
+        x: 16 * Math.sin(t) ** 3,
+        y: -(13 * Math.cos(t) - 5 * Math.cos(2 * t) - 2 * Math.cos(3 * t) - Math.cos(4 * t)),
+      });
+    }
+  } else if (shape === "star") {
+    for (let i = 0; i < 10; i++) {
+      const angle = -Math.PI / 2 + (i * Math.PI) / 5;
+      const radius = i % 2 === 0 ? 1 : 0.4;
+      points.push({ x: Math.cos(angle) * radius, y: Math.sin(angle) * radius });
+    }
+  } else {
+    const sides = shape === "hexagon" ? 6 : 180;
+    for (let i = 0; i < sides; i++) {
+      const angle = (i / sides) * Math.PI * 2;
+      points.push({ x: Math.cos(angle), y: Math.sin(angle) });
+    }
+  }
+  return points;
+}
+
+/** Rasterizes a built-in shape, cropped to its bounds. */
+export function shapeMask(shape: MaskShape, maxSide = MASK_MAX_SIDE): CollageMask {
+  const polygon = shapePolygon(shape);
+  const minX = Math.min(...polygon.map((p) => p.x));
+  const maxX = Math.max(...polygon.map((p) => p.x));
+  const minY = Math.min(...polygon.map((p) => p.y));
+  const maxY = Math.max(...polygon.map((p) => p.y));
+  const scale = maxSide / Math.max(maxX - minX, maxY - minY);
+  const width = Math.max(1, Math.round((maxX - minX) * scale));
+  const height = Math.max(1, Math.round((maxY - minY) * scale));
+  const pts = polygon.map((p) => ({ x: (p.x - minX) * scale, y: (p.y - minY) * scale }));
+
+  // Scanline fill with a few sub-rows per sample; spans add their exact horizontal coverage.
+  const SUB_ROWS = 4;
+  const coverage = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let s = 0; s < SUB_ROWS; s++) {
+      const sy = y + (s + 0.5) / SUB_ROWS;
+      const crossings: number[] = [];
+      for (let i = 0; i < pts.length; i++) {
+        const a = pts[i];
+        const b = pts[(i + 1) % pts.length];
+        if ((a.y <= sy) === (b.y <= sy)) continue;
+        crossings.push(a.x + ((sy - a.y) / (b.y - a.y)) * (b.x - a.x));
+      }
+      crossings.sort((p, q) => p - q);
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const x0 = clampNumber(crossings[i], 0, width);
+        const x1 = clampNumber(crossings[i + 1], 0, width);
+        for (let x = Math.floor(x0); x < x1 && x < width; x++) {
+          const covered = Math.min(x + 1, x1) - Math.max(x, x0);
+          if (covered > 0) coverage[y * width + x] += covered / SUB_ROWS;
+        }
+      }
+    }
+  }
+  const samples = new Uint8Array(width * height);
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.round(clampNumber(coverage[i], 0, 1) * 255);
+  return { width, height, data: encodeMaskData(samples) };
+}
+
+type ScratchContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+function createMaskContext(width: number, height: number): ScratchContext {
+  const canvas =
+    typeof OffscreenCanvas !== "undefined" ? new OffscreenCanvas(width, height) : document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true }) as ScratchContext | null;
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+  return ctx;
+}
+
+// Crops `samples` to the bounds of everything visibly set; null when nothing is.
+function trimmedMask(samples: Uint8Array, width: number, height: number): CollageMask | null {
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (samples[y * width + x] < 32) continue;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  if (maxX < 0) return null;
+  const w = maxX - minX + 1;
+  const h = maxY - minY + 1;
+  const out = new Uint8Array(w * h);
+  for (let y = 0; y < h; y++) {
+    const start = (minY + y) * width + minX;
+    out.set(samples.subarray(start, start + w), y * w);
+  }
+  return { width: w, height: h, data: encodeMaskData(out) };
+}
+
+/** Rasterizes a line of text in `font` (a CSS font family); null for blank text. */
+export function textMask(text: string, font: string, bold = false, maxSide = MASK_MAX_SIDE): CollageMask | null {
+  const line = text.trim();
+  if (!line) return null;
+  const weight = bold ? "bold " : "";
+  const probe = createMaskContext(1, 1);
+  probe.font = `${weight}100px ${font}`;
+  const metrics = probe.measureText(line);
+  const textWidth = Math.max(1, metrics.actualBoundingBoxLeft + metrics.actualBoundingBoxRight);
+  const textHeight = Math.max(1, metrics.actualBoundingBoxAscent + metrics.actualBoundingBoxDescent);
+  const scale = maxSide / Math.max(textWidth, textHeight);
+  // One sample of padding so antialiased edges aren't clipped; trimmed again below.
+  const width = Math.ceil(textWidth * scale) + 2;
+  const height = Math.ceil(textHeight * scale) + 2;
+
+  const ctx = createMaskContext(width, height);
+  ctx.font = `${weight}${100 * scale}px ${font}`;
+  ctx.fillStyle = "#000000";
+  ctx.fillText(line, 1 + metrics.actualBoundingBoxLeft * scale, 1 + metrics.actualBoundingBoxAscent * scale);
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+  const samples = new Uint8Array(width * height);
+  for (let i = 0; i < samples.length; i++) samples[i] = rgba[i * 4 + 3];
+  return trimmedMask(samples, width, height);
+}
+
+/**
+ * Reads an uploaded silhouette: its alpha channel when it has transparency, otherwise its
+ * darkness (a black shape on white). Null when nothing is set.
+ */
+export async function imageMask(file: Blob, maxSide = MASK_MAX_SIDE): Promise<CollageMask | null> {
+  const bitmap = await createImageBitmap(file);
+  let rgba: Uint8ClampedArray;
+  let width: number;
+  let height: number;
+  try {
+    const scale = Math.min(1, maxSide / Math.max(bitmap.width, bitmap.height));
+    width = Math.max(1, Math.round(bitmap.width * scale));
+    height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = createMaskContext(width, height);
+    ctx.drawImage(bitmap, 0, 0, width, height);
+    rgba = ctx.getImageData(0, 0, width, height).data;
+  } finally {
+    bitmap.close();
+  }
+
+  const samples = new Uint8Array(width * height);
+  let translucent = 0;
+  for (let i = 0; i < samples.length; i++) if (rgba[i * 4 + 3] < 250) translucent++;
+  const useAlpha = translucent > samples.length * 0.01;
+  for (let i = 0; i < samples.length; i++) {
+    const s = i * 4;
+    const luma = 0.299 * rgba[s] + 0.587 * rgba[s + 1] + 0.114 * rgba[s + 2];
+    samples[i] = useAlpha ? rgba[s + 3] : Math.round(255 - luma);
+  }
+  return trimmedMask(samples, width, height);
+}
+
+type MaskGrid = { cells: Rect[]; coverage: number[]; columns: number; rows: number };
+
+function maskGrid(
+  box: Rect,
+  mask: CollageMask,
+  samples: Uint8Array,
+  columns: number,
+  rows: number,
+  gap: number,
+): MaskGrid {
+  const widths = splitEvenly(box.width - gap * (columns - 1), columns);
+  const heights = splitEvenly(box.height - gap * (rows - 1), rows);
+  const sx = mask.width / box.width;
+  const sy = mask.height / box.height;
+  // Enough sub-samples per cell to see every mask sample it spans, within reason.
+  const sub = clampNumber(Math.ceil(Math.max(widths[0] * sx, heights[0] * sy)), 2, 6);
+
+  const grid: MaskGrid = { cells: [], coverage: [], columns, rows };
+  let y = box.y;
+  for (let r = 0; r < rows; r++) {
+    let x = box.x;
+    for (let c = 0; c < columns; c++) {
+      const cell = { x, y, width: widths[c], height: heights[r] };
+      let sum = 0;
+      for (let j = 0; j < sub; j++) {
+        const my = Math.min(mask.height - 1, Math.floor((cell.y - box.y + ((j + 0.5) / sub) * cell.height) * sy));
+        for (let i = 0; i < sub; i++) {
+          const mx = Math.min(mask.width - 1, Math.floor((cell.x - box.x + ((i + 0.5) / sub) * cell.width) * sx));
+          sum += samples[my * mask.width + mx];
+        }
+      }
+      grid.cells.push(cell);
+      grid.coverage.push(sum / (sub * sub * 255));
+      x += widths[c] + gap;
+    }
+    y += heights[r] + gap;
+  }
+  return grid;
+}
+
+type Block = { row: number; col: number; size: number };
+
+// Biggest all-set square of cells, as close to the shape's middle as possible, up to `target` wide.
+function mainBlock(grid: MaskGrid, set: boolean[], target: number): Block | null {
+  const { columns, rows } = grid;
+  // size[i]: side of the largest all-set square whose bottom-right cell is i.
+  const size = new Array<number>(set.length).fill(0);
+  let cx = 0;
+  let cy = 0;
+  let count = 0;
+  let largest = 0;
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      const i = r * columns + c;
+      if (!set[i]) continue;
+      size[i] = r > 0 && c > 0 ? Math.min(size[i - 1], size[i - columns], size[i - columns - 1]) + 1 : 1;
+      largest = Math.max(largest, size[i]);
+      cx += c;
+      cy += r;
+      count++;
+    }
+  }
+  if (count === 0) return null;
+  const side = Math.min(target, largest);
+  cx /= count;
+  cy /= count;
+  let best: Block | null = null;
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (let i = 0; i < size.length; i++) {
+    if (size[i] < side) continue;
+    const row = Math.floor(i / columns) - side + 1;
+    const col = (i % columns) - side + 1;
+    const distance = (row + (side - 1) / 2 - cy) ** 2 + (col + (side - 1) / 2 - cx) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = { row, col, size: side };
+    }
+  }
+  return best;
+}
+
+type MaskedLayout = { cells: Rect[]; mainRect: Rect | null };
+
+function tryMaskedLayout(grid: MaskGrid, count: number, mainRatio: number | undefined): MaskedLayout | null {
+  const set = grid.coverage.map((c) => c >= CELL_COVERAGE);
+  let mainRect: Rect | null = null;
+  const inMain = new Set<number>();
+  if (mainRatio != null) {
+    // Size the main block against the shape's extent, like mainRatio sizes it against the canvas.
+    let minR = grid.rows;
+    let maxR = -1;
+    let minC = grid.columns;
+    let maxC = -1;
+    set.forEach((on, i) => {
+      if (!on) return;
+      const r = Math.floor(i / grid.columns);
+      const c = i % grid.columns;
+      minR = Math.min(minR, r);
+      maxR = Math.max(maxR, r);
+      minC = Math.min(minC, c);
+      maxC = Math.max(maxC, c);
+    });
+    const extent = Math.min(maxR - minR + 1, maxC - minC + 1);
+    const block = mainBlock(grid, set, Math.max(1, Math.round(extent * mainRatio)));
+    if (!block) return null;
+    for (let r = block.row; r < block.row + block.size; r++) {
+      for (let c = block.col; c < block.col + block.size; c++) inMain.add(r * grid.columns + c);
+    }
+    const first = grid.cells[block.row * grid.columns + block.col];
+    const last = grid.cells[(block.row + block.size - 1) * grid.columns + block.col + block.size - 1];
+    mainRect = {
+      x: first.x,
+      y: first.y,
+      width: last.x + last.width - first.x,
+      height: last.y + last.height - first.y,
+    };
+  }
+
+  const candidates: number[] = [];
+  set.forEach((on, i) => {
+    if (on && !inMain.has(i)) candidates.push(i);
+  });
+  if (candidates.length < count) return null;
+  // Extra cells are dropped from the shape's fringe (the least covered ones) first.
+  const chosen = candidates
+    .sort((a, b) => grid.coverage[b] - grid.coverage[a] || a - b)
+    .slice(0, count)
+    .sort((a, b) => a - b);
+  return { cells: chosen.map((i) => grid.cells[i]), mainRect };
+}
+
+/**
+ * Lays `count` cells out on a near-square grid over the part of `rect` the mask covers (the mask
+ * is fitted inside `rect`, centered), cells read left to right, top to bottom. With `mainRatio`
+ * the main image additionally gets a square block of cells near the middle of the shape, about
+ * `mainRatio` of the shape's shorter extent wide. Uses the coarsest grid that has enough cells;
+ * returns null when the mask can't hold `count` cells (or is empty).
+ */
+export function layoutMaskedGrid(args: {
+  rect: Rect;
+  mask: CollageMask;
+  count: number;
+  gap: number;
+  mainRatio?: number;
+}): MaskedLayout | null {
+  const { rect, mask, count, mainRatio } = args;
+  const samples = maskSamples(mask);
+  if (!isUsable(mask, samples) || count < 0) return null;
+
+  const aspect = mask.width / mask.height;
+  const boxWidth = Math.max(1, Math.round(Math.min(rect.width, rect.height * aspect)));
+  const boxHeight = Math.max(1, Math.round(Math.min(rect.height, rect.width / aspect)));
+  const box: Rect = {
+    x: Math.round(rect.x + (rect.width - boxWidth) / 2),
+    y: Math.round(rect.y + (rect.height - boxHeight) / 2),
+    width: boxWidth,
+    height: boxHeight,
+  };
+
+  // Try the requested gap first; if the shape is too small for it, fall back to smaller gaps.
+  let gap = Math.max(0, Math.floor(args.gap));
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const rowsFor = (columns: number) => Math.max(1, Math.round((columns * box.height) / box.width));
+    const maxColumns = Math.min(
+      MAX_GRID_COLUMNS,
+      Math.floor((box.width + gap) / (1 + gap)),
+      Math.floor(((box.height + gap) / (1 + gap)) * (box.width / box.height)),
+    );
+    const attemptAt = (columns: number) => {
+      const rows = rowsFor(columns);
+      if (box.height - gap * (rows - 1) < rows) return null;
+      return tryMaskedLayout(maskGrid(box, mask, samples, columns, rows, gap), count, mainRatio);
+    };
+
+    if (maxColumns >= 1) {
+      let best = attemptAt(maxColumns);
+      if (best) {
+        // Fewer columns means bigger tiles; find the coarsest grid that still fits everything.
+        let lo = 1;
+        let hi = maxColumns;
+        while (lo < hi) {
+          const mid = Math.floor((lo + hi) / 2);
+          const layout = attemptAt(mid);
+          if (layout) {
+            best = layout;
+            hi = mid;
+          } else {
+            lo = mid + 1;
+          }
+        }
+        return best;
+      }
+    }
+    if (gap === 0) break;
+    gap = attempt === 3 ? 0 : Math.floor(gap / 2);
+  }
+  return null;
+}
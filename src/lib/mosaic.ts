@@ -0,0 +1,241 @@
+import type { CollageContext2D, Rect } from "./collage";
+
+// Photomosaic: the main image is rebuilt from the other photos. Colors are compared in CIE Lab,
+// where Euclidean distance roughly follows perceived difference.
+
+export type CollageMosaicOptions = {
+  /** Cells across the main rect's width; rows follow its aspect so cells stay square. */
+  columns: number;
+  /** Most cells one photo may fill (0 = no limit); raised when there are too few photos. */
+  maxRepeats: number;
+  /** 0–1: how strongly each cell is tinted toward the target color. */
+  tint: number;
+};
+
+export type MosaicColor = { lab: [number, number, number]; rgb: [number, number, number] };
+
+export const MIN_MOSAIC_COLUMNS = 8;
+export const MAX_MOSAIC_COLUMNS = 160;
+
+// Side of the decode tile colors are measured from; independent of the output size so preview
+// and export pick the same tiles.
+export const TILE_ANALYSIS_SIDE = 32;
+// Target pixels sampled per cell side.
+const TARGET_SAMPLES = 4;
+// Added to the color distance for each neighbor already showing the same photo.
+const NEIGHBOR_PENALTY = 12;
+
+const tileColorCache = new Map<string, MosaicColor>();
+
+let analysisCtx: CollageContext2D | null = null;
+
+function getAnalysisContext(): CollageContext2D | null {
+  if (analysisCtx) return analysisCtx;
+  if (typeof OffscreenCanvas !== "undefined") {
+    analysisCtx = new OffscreenCanvas(TILE_ANALYSIS_SIDE, TILE_ANALYSIS_SIDE).getContext("2d", {
+      willReadFrequently: true,
+    });
+  } else if (typeof document !== "undefined") {
+    analysisCtx = document.createElement("canvas").getContext("2d", { willReadFrequently: true });
+  }
+  return analysisCtx;
+}
+
+function toLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
+
+function toSrgb(linear: number): number {
+  const c = linear <= 0.0031308 ? linear * 12.92 : 1.055 * linear ** (1 / 2.4) - 0.055;
+  return Math.round(Math.min(1, Math.max(0, c)) * 255);
+}
+
+// Linear sRGB → CIE Lab (D65 white).
+function linearToLab(r: number, g: number, b: number): [number, number, number] {
+  const x = (0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047;
+  const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  const z = (0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883;
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 / 116) * t + 16 / 116);
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/** CIE Lab of an sRGB color (0–255 channels). */
+export function srgbToLab([r, g, b]: readonly [number, number, number]): [number, number, number] {
+  return linearToLab(toLinear(r), toLinear(g), toLinear(b));
+}
+
+// Average of the block's pixels, taken in linear light so a black / white checkerboard averages
+// to mid gray as the eye sees it, not too dark.
+function averageBlock(data: Uint8ClampedArray, stride: number, x0: number, y0: number, w: number, h: number) {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  for (let y = y0; y < y0 + h; y++) {
+    for (let x = x0; x < x0 + w; x++) {
+      const p = (y * stride + x) * 4;
+      r += toLinear(data[p]);
+      g += toLinear(data[p + 1]);
+      b += toLinear(data[p + 2]);
+    }
+  }
+  const n = Math.max(1, w * h);
+  return { lab: linearToLab(r / n, g / n, b / n), rgb: [toSrgb(r / n), toSrgb(g / n), toSrgb(b / n)] } as MosaicColor;
+}
+
+/** Average color of `crop` (source pixels), or null when the source can't be read. */
+export function averageColor(source: CanvasImageSource, crop: Rect): MosaicColor | null {
+  const ctx = getAnalysisContext();
+  if (!ctx) return null;
+  const side = 8;
+  ctx.canvas.width = side;
+  ctx.canvas.height = side;
+  ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, side, side);
+  try {
+    return averageBlock(ctx.getImageData(0, 0, side, side).data, side, 0, 0, side, side);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A tile's average color, cached by `key` (image id, then whatever changes the crop) so `sample`
+ * only decodes each photo once across renders.
+ */
+export async function getTileColor(
+  key: string,
+  sample: () => Promise<{ source: CanvasImageSource; crop: Rect; close?: () => void }>,
+): Promise<MosaicColor | null> {
+  const cached = tileColorCache.get(key);
+  if (cached) return cached;
+  const decoded = await sample();
+  try {
+    const color = averageColor(decoded.source, decoded.crop);
+    if (color) tileColorCache.set(key, color);
+    return color;
+  } finally {
+    decoded.close?.();
+  }
+}
+
+export function clearMosaicColorCache(ids?: Iterable<string>): void {
+  if (!ids) {
+    tileColorCache.clear();
+    return;
+  }
+  const drop = new Set(ids);
+  for (const key of tileColorCache.keys()) {
+    if (drop.has(key.slice(0, key.indexOf(":")))) tileColorCache.delete(key);
+  }
+}
+
+/** Square-ish cells over `rect`, row-major, with no gaps between them. */
+export function mosaicGrid(rect: Rect, columns: number): { cells: Rect[]; columns: number; rows: number } {
+  const cols = Math.max(1, Math.min(Math.round(columns), Math.floor(rect.width)));
+  const rows = Math.max(1, Math.min(Math.round((cols * rect.height) / rect.width), Math.floor(rect.height)));
+  const cells: Rect[] = [];
+  for (let r = 0; r < rows; r++) {
+    const y0 = rect.y + Math.round((r * rect.height) / rows);
+    const y1 = rect.y + Math.round(((r + 1) * rect.height) / rows);
+    for (let c = 0; c < cols; c++) {
+      const x0 = rect.x + Math.round((c * rect.width) / cols);
+      const x1 = rect.x + Math.round(((c + 1) * rect.width) / cols);
+      cells.push({ x: x0, y: y0, width: x1 - x0, height: y1 - y0 });
+    }
+  }
+  return { cells, columns: cols, rows };
+}
+
+/** Pixel size to decode the target image at for `targetColors`. */
+export function targetSampleSize(columns: number, rows: number): { width: number; height: number } {
+  return { width: columns * TARGET_SAMPLES, height: rows * TARGET_SAMPLES };
+}
+
+/** The target image's color in every cell of a `columns` × `rows` grid laid over `crop`. */
+export function targetColors(
+  source: CanvasImageSource,
+  crop: Rect,
+  columns: number,
+  rows: number,
+): MosaicColor[] | null {
+  const ctx = getAnalysisContext();
+  if (!ctx) return null;
+  const { width, height } = targetSampleSize(columns, rows);
+  ctx.canvas.width = width;
+  ctx.canvas.height = height;
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+  let data: Uint8ClampedArray;
+  try {
+    data = ctx.getImageData(0, 0, width, height).data;
+  } catch {
+    return null;
+  }
+  const out: MosaicColor[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      out.push(averageBlock(data, width, c * TARGET_SAMPLES, r * TARGET_SAMPLES, TARGET_SAMPLES, TARGET_SAMPLES));
+    }
+  }
+  return out;
+}
+
+function distance(a: MosaicColor, b: MosaicColor): number {
+  const dl = a.lab[0] - b.lab[0];
+  const da = a.lab[1] - b.lab[1];
+  const db = a.lab[2] - b.lab[2];
+  return Math.sqrt(dl * dl + da * da + db * db);
+}
+
+/**
+ * Picks a tile (index into `tiles`) for every target cell: the closest color among photos that
+ * haven't hit the repeat limit, nudged away from repeating a direct neighbor. Cells are visited
+ * in a shuffled order so no corner gets first pick of the best matches.
+ */
+export function assignMosaicTiles(args: {
+  targets: MosaicColor[];
+  columns: number;
+  tiles: MosaicColor[];
+  maxRepeats: number;
+  random?: () => number;
+}): number[] {
+  const { targets, columns, tiles, random = Math.random } = args;
+  const assigned = new Array<number>(targets.length).fill(-1);
+  if (tiles.length === 0) return assigned;
+  const limit =
+    args.maxRepeats > 0 ? Math.max(Math.floor(args.maxRepeats), Math.ceil(targets.length / tiles.length)) : Infinity;
+  const used = new Array<number>(tiles.length).fill(0);
+
+  const visit = targets.map((_, i) => i);
+  for (let i = visit.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [visit[i], visit[j]] = [visit[j], visit[i]];
+  }
+
+  for (const cell of visit) {
+    const col = cell % columns;
+    const neighbors = [
+      col > 0 ? assigned[cell - 1] : -1,
+      col < columns - 1 ? assigned[cell + 1] : -1,
+      assigned[cell - columns] ?? -1,
+      assigned[cell + columns] ?? -1,
+    ];
+    let best = -1;
+    let bestScore = Number.POSITIVE_INFINITY;
+    for (let t = 0; t < tiles.length; t++) {
+      if (used[t] >= limit) continue;
+      let score = distance(targets[cell], tiles[t]);
+      for (const n of neighbors) if (n === t) score += NEIGHBOR_PENALTY;
+      if (score < bestScore) {
+        bestScore = score;
+        best = t;
+      }
+    }
+    assigned[cell] = best;
+    used[best] += 1;
+  }
+  return assigned;
+}
@@ -0,0 +1,130 @@
+import type { CollageContext2D } from "./collage";
+import { srgbToLab } from "./mosaic";
+
+// Per-image colors for color-sorted rings: a few dominant colors and the mean luminance, read
+// from a small copy of the image.
+
+export type RgbColor = [number, number, number];
+
+export type CollageImageColors = {
+  /** Dominant colors, most common first (at most PALETTE_SIZE). */
+  palette: RgbColor[];
+  /** Mean relative luminance, 0 (black) – 1 (white). */
+  luminance: number;
+};
+
+export const PALETTE_SIZE = 4;
+
+// Side of the copy colors are read from; the page's 160 px thumbnails are scaled down to it.
+export const COLOR_ANALYSIS_SIDE = 48;
+// Colors closer than this (ΔE) count as the same palette entry.
+const MIN_PALETTE_DISTANCE = 12;
+// Below this HSL-style chroma (0–1) a color has no meaningful hue.
+const GRAY_CHROMA = 0.12;
+
+let analysisCtx: CollageContext2D | null = null;
+
+function getAnalysisContext(): CollageContext2D | null {
+  if (analysisCtx) return analysisCtx;
+  if (typeof OffscreenCanvas !== "undefined") {
+    analysisCtx = new OffscreenCanvas(COLOR_ANALYSIS_SIDE, COLOR_ANALYSIS_SIDE).getContext("2d", {
+      willReadFrequently: true,
+    });
+  } else if (typeof document !== "undefined") {
+    analysisCtx = document.createElement("canvas").getContext("2d", { willReadFrequently: true });
+  }
+  return analysisCtx;
+}
+
+function labDistance(a: RgbColor, b: RgbColor): number {
+  const la = srgbToLab(a);
+  const lb = srgbToLab(b);
+  return Math.hypot(la[0] - lb[0], la[1] - lb[1], la[2] - lb[2]);
+}
+
+/**
+ * Buckets the pixels of a small copy (3 bits per channel) and returns the mean color of the
+ * fullest buckets, skipping ones too close to a color already picked. Null if unreadable.
+ */
+export function extractImageColors(
+  source: CanvasImageSource,
+  sourceW: number,
+  sourceH: number,
+): CollageImageColors | null {
+  const ctx = getAnalysisContext();
+  if (!ctx || sourceW <= 0 || sourceH <= 0) return null;
+  const scale = Math.min(1, COLOR_ANALYSIS_SIDE / Math.max(sourceW, sourceH));
+  const w = Math.max(1, Math.round(sourceW * scale));
+  const h = Math.max(1, Math.round(sourceH * scale));
+  ctx.canvas.width = w;
+  ctx.canvas.height = h;
+  ctx.drawImage(source, 0, 0, w, h);
+  let data: Uint8ClampedArray;
+  try {
+    data = ctx.getImageData(0, 0, w, h).data;
+  } catch {
+    return null;
+  }
+
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  let luminance = 0;
+  for (let p = 0; p < data.length; p += 4) {
+    const r = data[p];
+    const g = data[p + 1];
+    const b = data[p + 2];
+    luminance += (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+    const key = ((r >> 5) << 6) | ((g >> 5) << 3) | (b >> 5);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count += 1;
+    bucket.r += r;
+    bucket.g += g;
+    bucket.b += b;
+    buckets.set(key, bucket);
+  }
+
+  const palette: RgbColor[] = [];
+  for (const bucket of [...buckets.values()].sort((a, b) => b.count - a.count)) {
+    const color: RgbColor = [
+      Math.round(bucket.r / bucket.count),
+      Math.round(bucket.g / bucket.count),
+      Math.round(bucket.b / bucket.count),
+    ];
+    if (palette.some((c) => labDistance(c, color) < MIN_PALETTE_DISTANCE)) continue;
+    palette.push(color);
+    if (palette.length >= PALETTE_SIZE) break;
+  }
+  return { palette, luminance: luminance / (w * h) };
+}
+
+/**
+ * Sort key for a clockwise hue gradient: hue in degrees for colorful images, then grays after
+ * every hue from light to dark. Images without colors sort last.
+ */
+export function hueOrderKey(colors: CollageImageColors | undefined): number {
+  const dominant = colors?.palette[0];
+  if (!colors || !dominant) return Number.POSITIVE_INFINITY;
+  const [r, g, b] = dominant.map((c) => c / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const chroma = max - min;
+  if (chroma < GRAY_CHROMA) return 360 + (1 - colors.luminance);
+  let hue: number;
+  if (max === r) hue = ((g - b) / chroma + 6) % 6;
+  else if (max === g) hue = (b - r) / chroma + 2;
+  else hue = (r - g) / chroma + 4;
+  return hue * 60;
+}
+
+/**
+ * How far an image's colors are from `target`'s (lower = closer): the smallest ΔE between one of
+ * the image's two most common colors and any of `target`'s palette, plus the luminance difference.
+ * Infinity if either has no colors.
+ */
+export function paletteDistance(colors: CollageImageColors | undefined, target: CollageImageColors | undefined): number {
+  if (!colors?.palette.length || !target?.palette.length) return Number.POSITIVE_INFINITY;
+  let nearest = Number.POSITIVE_INFINITY;
+  for (const a of colors.palette.slice(0, 2)) {
+    for (const b of target.palette) nearest = Math.min(nearest, labDistance(a, b));
+  }
+  return nearest + 50 * Math.abs(colors.luminance - target.luminance);
+}
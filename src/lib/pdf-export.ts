@@ -0,0 +1,162 @@
+import type { BitmapCache } from "./bitmap-cache";
+import {
+  canvasToBlob,
+  type CollageContext2D,
+  type CollageImageItem,
+  type CollagePlan,
+  type CollageProgress,
+  type Rect,
+  type RenderCollageOptions,
+} from "./collage";
+import { buildPdf, type PdfImage, type PdfPage } from "./pdf";
+import { createScratchCanvas, planCollageForStrips, renderCollageStrips } from "./tiled-export";
+
+export type CollagePdfOptions = {
+  /** Page size in points; the collage is centered on it at the largest size that fits. */
+  pageWidth: number;
+  pageHeight: number;
+  /** JPEG quality of the embedded collage. */
+  quality: number;
+  /** Adds a second page labelling every tile with its filename. */
+  contactSheet: boolean;
+};
+
+// Contact sheet raster: about 150 DPI, capped so huge pages stay cheap.
+const CONTACT_SHEET_PX_PER_PT = 150 / 72;
+const CONTACT_SHEET_MAX_SIDE = 4000;
+
+// Ellipsize `text` to fit `maxWidth` at the context's current font.
+function fitText(ctx: CollageContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let lo = 0;
+  let hi = text.length;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (ctx.measureText(`${text.slice(0, mid)}…`).width <= maxWidth) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo > 0 ? `${text.slice(0, lo)}…` : "";
+}
+
+// Drawn as an image rather than PDF text so filenames in any script render without embedding fonts.
+async function renderContactSheet(plan: CollagePlan, page: PdfPage, place: (r: Rect) => Rect): Promise<PdfImage> {
+  const pxPerPt = Math.min(CONTACT_SHEET_PX_PER_PT, CONTACT_SHEET_MAX_SIDE / Math.max(page.width, page.height));
+  const canvas = createScratchCanvas();
+  canvas.width = Math.max(1, Math.round(page.width * pxPerPt));
+  canvas.height = Math.max(1, Math.round(page.height * pxPerPt));
+  const ctx = canvas.getContext("2d", { alpha: false }) as CollageContext2D | null;
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+
+  try {
+    ctx.fillStyle = "#ffffff";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.lineWidth = Math.max(1, pxPerPt * 0.5);
+    ctx.textBaseline = "top";
+
+    plan.placements.forEach(({ item, rect, role }, idx) => {
+      const r = place(rect);
+      const x = r.x * pxPerPt;
+      const y = r.y * pxPerPt;
+      const w = r.width * pxPerPt;
+      const h = r.height * pxPerPt;
+      ctx.fillStyle = role === "main" ? "#f4f4f5" : "#fafafa";
+      ctx.fillRect(x, y, w, h);
+      ctx.strokeStyle = "#a1a1aa";
+      ctx.strokeRect(x, y, w, h);
+
+      const fontSize = Math.max(6, Math.min(h / 3, w / 8, 14 * pxPerPt));
+      const pad = fontSize * 0.3;
+      ctx.font = `${fontSize}px sans-serif`;
+      ctx.fillStyle = "#18181b";
+      const label = `${idx + 1}${role === "main" ? "（主图）" : ""}`;
+      ctx.fillText(fitText(ctx, label, w - pad * 2), x + pad, y + pad);
+      if (h >= fontSize * 2.6) {
+        ctx.fillStyle = "#52525b";
+        ctx.fillText(fitText(ctx, item.file.name, w - pad * 2), x + pad, y + pad + fontSize * 1.2);
+      }
+    });
+
+    const jpeg = await canvasToBlob(canvas, "image/jpeg", 0.92);
+    return {
+      jpeg,
+      pixelWidth: canvas.width,
+      pixelHeight: canvas.height,
+      rect: { x: 0, y: 0, width: page.width, height: page.height },
+    };
+  } finally {
+    canvas.width = 1;
+    canvas.height = 1;
+  }
+}
+
+/**
+ * Renders the collage as JPEG strips (see `renderCollageStrips`) stacked on one PDF page, plus an
+ * optional contact-sheet page at the same scale.
+ */
+export async function renderCollagePdf(args: {
+  images: CollageImageItem[];
+  mainId: string;
+  options: RenderCollageOptions;
+  pdf: CollagePdfOptions;
+  cache?: BitmapCache;
+  signal?: AbortSignal;
+  onProgress?: (progress: CollageProgress) => void;
+}): Promise<Blob> {
+  const { mainId, options, pdf, cache, signal, onProgress } = args;
+  const { images, plan } = await planCollageForStrips(args);
+
+  const scale = Math.min(pdf.pageWidth / plan.width, pdf.pageHeight / plan.height);
+  const offsetX = (pdf.pageWidth - plan.width * scale) / 2;
+  const offsetY = (pdf.pageHeight - plan.height * scale) / 2;
+  const place = (r: Rect): Rect => ({
+    x: offsetX + r.x * scale,
+    y: offsetY + r.y * scale,
+    width: r.width * scale,
+    height: r.height * scale,
+  });
+
+  const page: PdfPage = { width: pdf.pageWidth, height: pdf.pageHeight, images: [] };
+  if (plan.print) {
+    const { trim, bleed } = plan.print;
+    page.trimBox = place(trim);
+    page.bleedBox = place({
+      x: trim.x - bleed,
+      y: trim.y - bleed,
+      width: trim.width + bleed * 2,
+      height: trim.height + bleed * 2,
+    });
+  }
+
+  await renderCollageStrips({
+    images,
+    mainId,
+    // The strips are embedded as JPEG, which has no alpha.
+    options: { ...options, transparent: false },
+    plan,
+    cache,
+    signal,
+    onProgress,
+    consume: async ({ canvas, y, rows, index, count }) => {
+      onProgress?.({ phase: "export", done: index, total: count, message: `编码分块 ${index + 1}/${count}…` });
+      const jpeg = await canvasToBlob(canvas, "image/jpeg", pdf.quality);
+      page.images.push({
+        jpeg,
+        pixelWidth: plan.width,
+        pixelHeight: rows,
+        rect: place({ x: 0, y, width: plan.width, height: rows }),
+      });
+    },
+  });
+
+  const pages = [page];
+  if (pdf.contactSheet) {
+    if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+    onProgress?.({ phase: "export", done: 0, total: 1, message: "绘制索引页…" });
+    const sheet: PdfPage = { width: pdf.pageWidth, height: pdf.pageHeight, images: [] };
+    sheet.images.push(await renderContactSheet(plan, sheet, place));
+    pages.push(sheet);
+  }
+
+  onProgress?.({ phase: "export", done: 1, total: 1, message: "生成 PDF 文件…" });
+  return buildPdf(pages);
+}
@@ -0,0 +1,114 @@
+// Minimal PDF writer: pages of positioned JPEG images. The file is assembled from Blob parts, so
+// encoded image data is referenced rather than copied into one big buffer.
+
+import type { Rect } from "./collage";
+
+export const POINTS_PER_INCH = 72;
+
+export type PdfPageUnit = "mm" | "in";
+
+export function toPoints(value: number, unit: PdfPageUnit): number {
+  return unit === "in" ? value * POINTS_PER_INCH : (value / 25.4) * POINTS_PER_INCH;
+}
+
+/** A baseline/progressive RGB JPEG drawn into `rect` (points, top-left origin like canvas). */
+export type PdfImage = { jpeg: Blob; pixelWidth: number; pixelHeight: number; rect: Rect };
+
+export type PdfPage = {
+  /** Page size in points. */
+  width: number;
+  height: number;
+  images: PdfImage[];
+  /** Finished page area and bleed area for print workflows (points, top-left origin). */
+  trimBox?: Rect;
+  bleedBox?: Rect;
+};
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
+
+function pdfDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+export function buildPdf(pages: PdfPage[]): Blob {
+  if (pages.length === 0) throw new Error("A PDF needs at least one page.");
+
+  const text = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const offsets: number[] = [];
+  let size = 0;
+  const push = (part: string | Uint8Array<ArrayBuffer> | Blob) => {
+    const chunk = typeof part === "string" ? text.encode(part) : part;
+    parts.push(chunk);
+    size += chunk instanceof Blob ? chunk.size : chunk.length;
+  };
+  const object = (id: number, body: string) => {
+    offsets[id] = size;
+    push(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+
+  // 1: catalog, 2: page tree, 3: info; then per page: the page, its content stream, its images.
+  let nextId = 4;
+  const layout = pages.map((page) => ({
+    page,
+    pageId: nextId++,
+    contentId: nextId++,
+    imageIds: page.images.map(() => nextId++),
+  }));
+
+  push("%PDF-1.4\n");
+  // Binary marker comment so transfer tools treat the file as binary.
+  push(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+  object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+  object(2, `<< /Type /Pages /Kids [${layout.map((l) => `${l.pageId} 0 R`).join(" ")}] /Count ${pages.length} >>`);
+  object(3, `<< /Producer (SmartCollage) /CreationDate (${pdfDate(new Date())}) >>`);
+
+  for (const { page, pageId, contentId, imageIds } of layout) {
+    const h = page.height;
+    // PDF boxes are [left bottom right top] with the origin at the bottom left.
+    const box = (r: Rect) =>
+      `[${[r.x, h - r.y - r.height, r.x + r.width, h - r.y].map(formatNumber).join(" ")}]`;
+    const boxes =
+      (page.trimBox ? ` /TrimBox ${box(page.trimBox)}` : "") + (page.bleedBox ? ` /BleedBox ${box(page.bleedBox)}` : "");
+    const xobjects = imageIds.map((id, i) => `/Im${i} ${id} 0 R`).join(" ");
+    object(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(page.width)} ${formatNumber(h)}]${boxes} ` +
+        `/Resources << /XObject << ${xobjects} >> >> /Contents ${contentId} 0 R >>`,
+    );
+
+    const content = text.encode(
+      page.images
+        .map(({ rect }, i) => {
+          const matrix = [rect.width, 0, 0, rect.height, rect.x, h - rect.y - rect.height].map(formatNumber);
+          return `q ${matrix.join(" ")} cm /Im${i} Do Q\n`;
+        })
+        .join(""),
+    );
+    offsets[contentId] = size;
+    push(`${contentId} 0 obj\n<< /Length ${content.length} >>\nstream\n`);
+    push(content);
+    push("\nendstream\nendobj\n");
+
+    page.images.forEach((image, i) => {
+      offsets[imageIds[i]] = size;
+      push(
+        `${imageIds[i]} 0 obj\n<< /Type /XObject /Subtype /Image /Width ${image.pixelWidth} /Height ${image.pixelHeight} ` +
+          `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.jpeg.size} >>\nstream\n`,
+      );
+      push(image.jpeg);
+      push("\nendstream\nendobj\n");
+    });
+  }
+
+  const xrefOffset = size;
+  const count = nextId;
+  let xref = `xref\n0 ${count}\n0000000000 65535 f \n`;
+  for (let id = 1; id < count; id++) xref += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  push(xref);
+  push(`trailer\n<< /Size ${count} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+  return new Blob(parts, { type: "application/pdf" });
+}
@@ -0,0 +1,115 @@
+import { crc32 as zlibCrc32, deflateSync, inflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { crc32, setPngDpi } from "./png";
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+type Chunk = { type: string; data: Uint8Array; crc: number };
+
+function chunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(Buffer.from(type, "latin1"), 4);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, zlibCrc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+// A 2×1 RGB image (red, blue), optionally with extra chunks between IHDR and IDAT.
+function tinyPng(extra: Uint8Array<ArrayBuffer>[] = []): Blob {
+  const ihdr = new Uint8Array(13);
+  const view = new DataView(ihdr.buffer);
+  view.setUint32(0, 2);
+  view.setUint32(4, 1);
+  ihdr.set([8, 2, 0, 0, 0], 8);
+  const pixels = deflateSync(new Uint8Array([0, 255, 0, 0, 0, 0, 255]));
+  const parts = [
+    new Uint8Array(SIGNATURE),
+    chunk("IHDR", ihdr),
+    ...extra,
+    chunk("IDAT", pixels),
+    chunk("IEND", new Uint8Array(0)),
+  ];
+  return new Blob(parts, { type: "image/png" });
+}
+
+function physChunk(ppmX: number, ppmY: number, unit: number): Uint8Array<ArrayBuffer> {
+  const data = new Uint8Array(9);
+  const view = new DataView(data.buffer);
+  view.setUint32(0, ppmX);
+  view.setUint32(4, ppmY);
+  data[8] = unit;
+  return chunk("pHYs", data);
+}
+
+// Splits a PNG into chunks, failing on a bad signature, a truncated chunk or a wrong CRC.
+async function readChunks(png: Blob): Promise<Chunk[]> {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  expect([...bytes.subarray(0, 8)]).toEqual(SIGNATURE);
+  const chunks: Chunk[] = [];
+  let offset = 8;
+  while (offset < bytes.length) {
+    expect(offset + 12).toBeLessThanOrEqual(bytes.length);
+    const length = view.getUint32(offset);
+    const type = Buffer.from(bytes.subarray(offset + 4, offset + 8)).toString("latin1");
+    const end = offset + 12 + length;
+    expect(end).toBeLessThanOrEqual(bytes.length);
+    const crc = view.getUint32(end - 4);
+    expect(crc).toBe(zlibCrc32(bytes.subarray(offset + 4, end - 4)));
+    chunks.push({ type, data: bytes.slice(offset + 8, end - 4), crc });
+    offset = end;
+  }
+  return chunks;
+}
+
+describe("crc32", () => {
+  it("matches zlib's CRC-32", () => {
+    const bytes = new TextEncoder().encode("The quick brown fox jumps over the lazy dog");
+    expect((crc32(bytes) ^ 0xffffffff) >>> 0).toBe(zlibCrc32(bytes));
+  });
+
+  it("chains across calls", () => {
+    const bytes = new TextEncoder().encode("123456789");
+    const chained = crc32(bytes.subarray(4), crc32(bytes.subarray(0, 4)));
+    expect((chained ^ 0xffffffff) >>> 0).toBe(0xcbf43926);
+  });
+});
+
+describe("setPngDpi", () => {
+  it("inserts a pHYs chunk right after IHDR with a valid CRC", async () => {
+    const chunks = await readChunks(await setPngDpi(tinyPng(), 300));
+    expect(chunks.map((c) => c.type)).toEqual(["IHDR", "pHYs", "IDAT", "IEND"]);
+    const phys = new DataView(chunks[1].data.buffer);
+    expect(chunks[1].data.length).toBe(9);
+    expect(phys.getUint32(0)).toBe(11811); // 300 dpi in pixels per meter
+    expect(phys.getUint32(4)).toBe(11811);
+    expect(chunks[1].data[8]).toBe(1);
+  });
+
+  it("keeps the image data intact", async () => {
+    const original = await readChunks(tinyPng());
+    const patched = await readChunks(await setPngDpi(tinyPng(), 72));
+    const idat = (chunks: Chunk[]) => chunks.find((c) => c.type === "IDAT")?.data ?? new Uint8Array(0);
+    expect(patched[0]).toEqual(original[0]);
+    expect(idat(patched)).toEqual(idat(original));
+    expect([...inflateSync(idat(patched))]).toEqual([0, 255, 0, 0, 0, 0, 255]);
+  });
+
+  it("replaces existing pHYs chunks instead of adding another", async () => {
+    const text = chunk("tEXt", new TextEncoder().encode("Software\0test"));
+    const png = tinyPng([physChunk(1000, 2000, 0), text, physChunk(3000, 3000, 1)]);
+    const chunks = await readChunks(await setPngDpi(png, 150));
+    expect(chunks.map((c) => c.type)).toEqual(["IHDR", "pHYs", "tEXt", "IDAT", "IEND"]);
+    expect(new DataView(chunks[1].data.buffer).getUint32(0)).toBe(5906);
+  });
+
+  it("is tagged as a PNG", async () => {
+    expect((await setPngDpi(tinyPng(), 300)).type).toBe("image/png");
+  });
+
+  it("rejects data that isn't a PNG", async () => {
+    await expect(setPngDpi(new Blob([new Uint8Array(64)]), 300)).rejects.toThrow("Not a PNG file.");
+  });
+});
@@ -0,0 +1,181 @@
+// Minimal streaming PNG writer: 8-bit RGB (or RGBA), rows fed in strips and deflated on the fly through
+// CompressionStream, so the encoder never holds more than one strip of raw pixels.
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Coalesce deflate output into IDAT chunks of at least this many bytes.
+const IDAT_CHUNK_BYTES = 256 * 1024;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable;
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  crcTable = table;
+  return table;
+}
+
+/** CRC-32 (as used by PNG and ZIP); chain calls by passing the previous result, then `^ 0xffffffff`. */
+export function crc32(bytes: Uint8Array, crc = 0xffffffff): number {
+  const table = getCrcTable();
+  let c = crc;
+  for (let i = 0; i < bytes.length; i++) c = table[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return c;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array<ArrayBuffer> {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, (crc32(out.subarray(4, 8 + data.length)) ^ 0xffffffff) >>> 0);
+  return out;
+}
+
+const INCHES_PER_METER = 1 / 0.0254;
+
+/**
+ * Returns `png` with a pHYs chunk declaring `dpi` (replacing any existing one). Only the header
+ * is read; the image data is passed through as blob slices, so this is cheap for huge files.
+ */
+export async function setPngDpi(png: Blob, dpi: number): Promise<Blob> {
+  const head = new Uint8Array(await png.slice(0, 64 * 1024).arrayBuffer());
+  const view = new DataView(head.buffer);
+  if (head.length < 33 || PNG_SIGNATURE.some((b, i) => head[i] !== b)) throw new Error("Not a PNG file.");
+
+  // Collect existing pHYs chunks among the header chunks (they must precede IDAT).
+  const drop: [number, number][] = [];
+  for (let offset = 8; offset + 8 <= head.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...head.subarray(offset + 4, offset + 8));
+    if (type === "IDAT" || type === "IEND") break;
+    if (type === "pHYs") drop.push([offset, offset + 12 + length]);
+    offset += 12 + length;
+  }
+
+  const ppm = Math.round(dpi * INCHES_PER_METER);
+  const phys = new Uint8Array(9);
+  const physView = new DataView(phys.buffer);
+  physView.setUint32(0, ppm);
+  physView.setUint32(4, ppm);
+  phys[8] = 1; // unit: meter
+
+  // IHDR is always first and always 13 bytes, so the new chunk goes at byte 33.
+  const parts: BlobPart[] = [png.slice(0, 33), pngChunk("pHYs", phys)];
+  let cursor = 33;
+  for (const [start, end] of drop) {
+    parts.push(png.slice(cursor, start));
+    cursor = end;
+  }
+  parts.push(png.slice(cursor));
+  return new Blob(parts, { type: "image/png" });
+}
+
+export function supportsStreamingPng(): boolean {
+  return typeof CompressionStream !== "undefined";
+}
+
+export type PngStreamEncoder = {
+  /** Appends `rows` rows of RGBA pixels (alpha is dropped unless the encoder keeps it), e.g. from getImageData. */
+  writeRows: (rgba: Uint8ClampedArray, rows: number) => Promise<void>;
+  finish: () => Promise<Blob>;
+  /** Releases the compressor after a failed or cancelled export. */
+  abort: () => void;
+};
+
+/** `alpha` keeps the alpha channel (truecolor + alpha) instead of writing plain RGB. */
+export function createPngStreamEncoder(width: number, height: number, alpha = false): PngStreamEncoder {
+  if (!supportsStreamingPng()) throw new Error("当前浏览器不支持流式 PNG 编码（CompressionStream）。");
+
+  const parts: Uint8Array<ArrayBuffer>[] = [PNG_SIGNATURE];
+  const ihdr = new Uint8Array(13);
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, width);
+  ihdrView.setUint32(4, height);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = alpha ? 6 : 2; // color type: truecolor RGBA / RGB
+  parts.push(pngChunk("IHDR", ihdr));
+
+  // PNG's IDAT stream is zlib-wrapped deflate, which is exactly CompressionStream("deflate").
+  const compressor = new CompressionStream("deflate");
+  const writer = compressor.writable.getWriter();
+  const reader = compressor.readable.getReader();
+
+  const collected = (async () => {
+    let pending: Uint8Array[] = [];
+    let pendingBytes = 0;
+    const flush = () => {
+      if (pendingBytes === 0) return;
+      const data = new Uint8Array(pendingBytes);
+      let offset = 0;
+      for (const chunk of pending) {
+        data.set(chunk, offset);
+        offset += chunk.length;
+      }
+      parts.push(pngChunk("IDAT", data));
+      pending = [];
+      pendingBytes = 0;
+    };
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending.push(value);
+      pendingBytes += value.length;
+      if (pendingBytes >= IDAT_CHUNK_BYTES) flush();
+    }
+    flush();
+  })();
+
+  let written = 0;
+  const channels = alpha ? 4 : 3;
+  const stride = 1 + width * channels;
+
+  return {
+    async writeRows(rgba, rows) {
+      if (written + rows > height) throw new Error("PNG encoder received more rows than declared.");
+      const raw = new Uint8Array(stride * rows);
+      for (let y = 0; y < rows; y++) {
+        const src = y * width * 4;
+        const dst = y * stride;
+        // Filter type 1 (Sub): each byte minus the same channel of the pixel to its left.
+        raw[dst] = 1;
+        for (let x = 0; x < width; x++) {
+          const s = src + x * 4;
+          const d = dst + 1 + x * channels;
+          if (x === 0) {
+            raw[d] = rgba[s];
+            raw[d + 1] = rgba[s + 1];
+            raw[d + 2] = rgba[s + 2];
+            if (alpha) raw[d + 3] = rgba[s + 3];
+          } else {
+            raw[d] = rgba[s] - rgba[s - 4];
+            raw[d + 1] = rgba[s + 1] - rgba[s - 3];
+            raw[d + 2] = rgba[s + 2] - rgba[s - 2];
+            if (alpha) raw[d + 3] = rgba[s + 3] - rgba[s - 1];
+          }
+        }
+      }
+      written += rows;
+      await writer.write(raw);
+    },
+
+    async finish() {
+      if (written !== height) throw new Error("PNG encoder finished before all rows were written.");
+      await writer.close();
+      await collected;
+      parts.push(pngChunk("IEND", new Uint8Array(0)));
+      return new Blob(parts, { type: "image/png" });
+    },
+
+    abort() {
+      void writer.abort().catch(() => undefined);
+      void collected.catch(() => undefined);
+    },
+  };
+}
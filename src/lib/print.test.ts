@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { setJpegDpi, withDpiMetadata } from "./print";
+
+type Segment = { marker: number; data: Uint8Array };
+
+function segment(marker: number, data: number[]): number[] {
+  const length = data.length + 2;
+  return [0xff, marker, length >> 8, length & 0xff, ...data];
+}
+
+const JFIF_DEFAULT = segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0x00, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+const EXIF = segment(0xe1, [0x45, 0x78, 0x69, 0x66, 0x00, 0x00, 0x4d, 0x4d]);
+const QUANT = segment(0xdb, [0x00, ...new Array<number>(64).fill(1)]);
+const SCAN = [...segment(0xda, [1, 1, 0, 0, 63, 0]), 0x12, 0xff, 0x00, 0x34];
+
+function jpeg(...segments: number[][]): Blob {
+  return new Blob([new Uint8Array([0xff, 0xd8, ...segments.flat(), 0xff, 0xd9])], { type: "image/jpeg" });
+}
+
+// Walks the marker segments up to the scan, failing if the stream isn't a well-formed JPEG.
+async function readSegments(blob: Blob): Promise<{ segments: Segment[]; bytes: Uint8Array }> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  expect([bytes[0], bytes[1]]).toEqual([0xff, 0xd8]);
+  expect([...bytes.subarray(-2)]).toEqual([0xff, 0xd9]);
+  const segments: Segment[] = [];
+  let offset = 2;
+  for (;;) {
+    expect(bytes[offset]).toBe(0xff);
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    expect(offset + 2 + length).toBeLessThanOrEqual(bytes.length);
+    segments.push({ marker, data: bytes.slice(offset + 4, offset + 2 + length) });
+    if (marker === 0xda) break;
+    offset += 2 + length;
+  }
+  return { segments, bytes };
+}
+
+function density(app0: Segment): { units: number; x: number; y: number } {
+  const view = new DataView(app0.data.buffer);
+  return { units: app0.data[7], x: view.getUint16(8), y: view.getUint16(10) };
+}
+
+describe("setJpegDpi", () => {
+  it("patches the density of an existing JFIF header in place", async () => {
+    const original = jpeg(JFIF_DEFAULT, QUANT, SCAN);
+    const patched = await setJpegDpi(original, 300);
+    const { segments, bytes } = await readSegments(patched);
+    expect(segments.map((s) => s.marker)).toEqual([0xe0, 0xdb, 0xda]);
+    expect(Buffer.from(segments[0].data.subarray(0, 5)).toString("latin1")).toBe("JFIF\0");
+    expect(density(segments[0])).toEqual({ units: 1, x: 300, y: 300 });
+    expect(bytes.length).toBe(original.size);
+    const before = new Uint8Array(await original.arrayBuffer());
+    expect(bytes.subarray(18)).toEqual(before.subarray(18));
+  });
+
+  it("adds a JFIF header when the encoder left it out", async () => {
+    const original = jpeg(EXIF, QUANT, SCAN);
+    const { segments, bytes } = await readSegments(await setJpegDpi(original, 72));
+    expect(segments.map((s) => s.marker)).toEqual([0xe0, 0xe1, 0xdb, 0xda]);
+    expect(segments[0].data.length).toBe(14);
+    expect(density(segments[0])).toEqual({ units: 1, x: 72, y: 72 });
+    const before = new Uint8Array(await original.arrayBuffer());
+    expect(bytes.subarray(20)).toEqual(before.subarray(2));
+  });
+
+  it("clamps the density to what the header can hold", async () => {
+    const { segments } = await readSegments(await setJpegDpi(jpeg(JFIF_DEFAULT, SCAN), 100000));
+    expect(density(segments[0])).toEqual({ units: 1, x: 0xffff, y: 0xffff });
+  });
+
+  it("rejects data that isn't a JPEG", async () => {
+    await expect(setJpegDpi(new Blob([new Uint8Array(20)]), 300)).rejects.toThrow("Not a JPEG file.");
+  });
+});
+
+describe("withDpiMetadata", () => {
+  it("leaves formats without a density field untouched", async () => {
+    const webp = new Blob([new Uint8Array([1, 2, 3])], { type: "image/webp" });
+    expect(await withDpiMetadata(webp, 300)).toBe(webp);
+  });
+
+  it("stamps JPEGs", async () => {
+    const { segments } = await readSegments(await withDpiMetadata(jpeg(JFIF_DEFAULT, SCAN), 200));
+    expect(density(segments[0])).toEqual({ units: 1, x: 200, y: 200 });
+  });
+});
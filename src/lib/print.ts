@@ -0,0 +1,100 @@
+import type { CollagePrintOptions } from "./collage";
+import { setPngDpi } from "./png";
+
+export const MM_PER_INCH = 25.4;
+
+export type PrintSettings = {
+  /** Finished (trimmed) size. */
+  widthMm: number;
+  heightMm: number;
+  dpi: number;
+  bleedMm: number;
+  cropMarks: boolean;
+};
+
+// Crop marks in the usual place: starting just outside the bleed, 5 mm long, 0.25 pt wide.
+const CROP_MARK_GAP_MM = 1;
+const CROP_MARK_LENGTH_MM = 5;
+const CROP_MARK_LINE_PT = 0.25;
+
+export function mmToPx(mm: number, dpi: number): number {
+  return Math.round((mm / MM_PER_INCH) * dpi);
+}
+
+export type PrintLayout = {
+  /** Pixel size of the finished area; the collage is laid out at this size. */
+  trimWidth: number;
+  trimHeight: number;
+  print: CollagePrintOptions;
+  /** Pixel size of the file: trim plus bleed (and the crop-mark margin when enabled). */
+  width: number;
+  height: number;
+};
+
+export function computePrintLayout(settings: PrintSettings): PrintLayout {
+  const { dpi } = settings;
+  const bleed = mmToPx(Math.max(0, settings.bleedMm), dpi);
+  const print: CollagePrintOptions = { bleed };
+  let margin = bleed;
+  if (settings.cropMarks) {
+    const offset = bleed + mmToPx(CROP_MARK_GAP_MM, dpi);
+    const length = mmToPx(CROP_MARK_LENGTH_MM, dpi);
+    print.cropMarks = { offset, length, lineWidth: Math.max(1, (CROP_MARK_LINE_PT / 72) * dpi) };
+    margin = offset + length;
+  }
+  const trimWidth = Math.max(1, mmToPx(settings.widthMm, dpi));
+  const trimHeight = Math.max(1, mmToPx(settings.heightMm, dpi));
+  return { trimWidth, trimHeight, print, width: trimWidth + margin * 2, height: trimHeight + margin * 2 };
+}
+
+/** The same print extras for a scaled-down render (e.g. the on-screen preview). */
+export function scalePrintOptions(print: CollagePrintOptions, factor: number): CollagePrintOptions {
+  const scaled: CollagePrintOptions = { bleed: Math.round(print.bleed * factor) };
+  if (print.cropMarks) {
+    const { offset, length, lineWidth } = print.cropMarks;
+    scaled.cropMarks = {
+      offset: Math.round(offset * factor),
+      length: Math.round(length * factor),
+      lineWidth: Math.max(1, lineWidth * factor),
+    };
+  }
+  return scaled;
+}
+
+// JFIF APP0 with density units = dots per inch.
+function jfifSegment(dpi: number): Uint8Array<ArrayBuffer> {
+  const segment = new Uint8Array(18);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe0);
+  view.setUint16(2, 16);
+  segment.set([0x4a, 0x46, 0x49, 0x46, 0x00, 1, 1], 4); // "JFIF\0", version 1.1
+  segment[11] = 1;
+  view.setUint16(12, dpi);
+  view.setUint16(14, dpi);
+  return segment;
+}
+
+/** Returns `jpeg` with its JFIF header declaring `dpi`, adding the header if the encoder left it out. */
+export async function setJpegDpi(jpeg: Blob, dpi: number): Promise<Blob> {
+  const head = new Uint8Array(await jpeg.slice(0, 20).arrayBuffer());
+  if (head[0] !== 0xff || head[1] !== 0xd8) throw new Error("Not a JPEG file.");
+  const density = Math.min(0xffff, Math.max(1, Math.round(dpi)));
+  const hasJfif =
+    head[2] === 0xff && head[3] === 0xe0 && String.fromCharCode(...head.subarray(6, 11)) === "JFIF\0";
+  if (hasJfif) {
+    const patched = head.slice(0, 18);
+    const view = new DataView(patched.buffer);
+    patched[13] = 1;
+    view.setUint16(14, density);
+    view.setUint16(16, density);
+    return new Blob([patched, jpeg.slice(18)], { type: "image/jpeg" });
+  }
+  return new Blob([jpeg.slice(0, 2), jfifSegment(density), jpeg.slice(2)], { type: "image/jpeg" });
+}
+
+/** Stamps the physical resolution into a PNG or JPEG so layout software picks the right size. */
+export function withDpiMetadata(blob: Blob, dpi: number): Promise<Blob> {
+  if (blob.type === "image/png") return setPngDpi(blob, dpi);
+  if (blob.type === "image/jpeg") return setJpegDpi(blob, dpi);
+  return Promise.resolve(blob);
+}
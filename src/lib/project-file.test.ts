@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import type { CollageImageItem } from "./collage";
+import { buildProjectFile, readProjectFile } from "./project-file";
+import { createZip } from "./zip";
+
+type Settings = { gap: number; pins: Record<string, string> };
+
+function counter(prefix: string): () => string {
+  let n = 0;
+  return () => `${prefix}${++n}`;
+}
+
+const IMAGES: CollageImageItem[] = [
+  {
+    id: "a",
+    file: new File([new Uint8Array([1, 2, 3])], "beach.jpg", { type: "image/jpeg", lastModified: 1700000000000 }),
+    focalPoint: { x: 0.25, y: 0.75 },
+    zoom: 1.5,
+  },
+  {
+    id: "b",
+    file: new File([new Uint8Array([4, 5])], "beach.jpg", { type: "image/png", lastModified: 1700000002000 }),
+    weight: 2,
+  },
+];
+
+describe("buildProjectFile / readProjectFile", () => {
+  it("round-trips photos, the main image and settings under fresh ids", async () => {
+    const file = await buildProjectFile<Settings>({
+      name: "Holiday",
+      mainId: "b",
+      images: IMAGES,
+      settings: { gap: 6, pins: { a: "top" } },
+      preview: new Blob([new Uint8Array([9])], { type: "image/webp" }),
+    });
+    const project = await readProjectFile<Settings>(file, counter("new-"));
+
+    expect(project.name).toBe("Holiday");
+    expect(project.images.map((i) => i.id)).toEqual(["new-1", "new-2"]);
+    expect(project.mainId).toBe("new-2");
+    expect([...project.ids]).toEqual([
+      ["a", "new-1"],
+      ["b", "new-2"],
+    ]);
+    expect(project.settings).toEqual({ gap: 6, pins: { a: "top" } });
+    expect(project.missing).toBe(0);
+
+    const [a, b] = project.images;
+    expect(a.file.name).toBe("beach.jpg");
+    expect(a.file.type).toBe("image/jpeg");
+    expect(a.file.lastModified).toBe(1700000000000);
+    expect([...new Uint8Array(await a.file.arrayBuffer())]).toEqual([1, 2, 3]);
+    expect(a.focalPoint).toEqual({ x: 0.25, y: 0.75 });
+    expect(a.zoom).toBe(1.5);
+    expect(b.file.type).toBe("image/png");
+    expect([...new Uint8Array(await b.file.arrayBuffer())]).toEqual([4, 5]);
+    expect(b.weight).toBe(2);
+  });
+
+  it("counts photos missing from the archive", async () => {
+    const doc = {
+      format: "smartcollage-project",
+      version: 1,
+      name: "",
+      mainId: "gone",
+      images: [{ id: "gone", path: "images/1-gone.jpg" }],
+      settings: {},
+    };
+    const file = await createZip([{ name: "project.json", data: new Blob([JSON.stringify(doc)]) }]);
+    const project = await readProjectFile(file, counter("n"));
+    expect(project.images).toEqual([]);
+    expect(project.mainId).toBeNull();
+    expect(project.missing).toBe(1);
+  });
+});
+
+describe("buildProjectFile limits", () => {
+  it("explains that a project too big for a ZIP can't be saved", async () => {
+    const huge = new File([], "huge.tif", { type: "image/tiff" });
+    Object.defineProperty(huge, "size", { value: 2 ** 32 });
+    await expect(
+      buildProjectFile({ name: "x", mainId: null, images: [{ id: "a", file: huge }], settings: {} }),
+    ).rejects.toThrow("项目太大，超出了项目文件的上限（4 GB 或约 6.5 万张图片），请减少图片后再保存。");
+  });
+
+  it("passes aborts through unchanged", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      buildProjectFile({ name: "x", mainId: null, images: IMAGES, settings: {}, signal: controller.signal }),
+    ).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
+
+describe("readProjectFile on damaged input", () => {
+  it("explains that a non-ZIP file can't be read", async () => {
+    const file = new Blob([new Uint8Array(256).map((_, i) => (i * 31) & 0xff)]);
+    await expect(readProjectFile(file, counter("n"))).rejects.toThrow("无法读取项目文件，文件可能已损坏。");
+  });
+
+  it("explains that a truncated project can't be read", async () => {
+    const file = await buildProjectFile({ name: "x", mainId: null, images: IMAGES, settings: {} });
+    await expect(readProjectFile(file.slice(0, file.size - 30), counter("n"))).rejects.toThrow(
+      "无法读取项目文件，文件可能已损坏。",
+    );
+    await expect(readProjectFile(file.slice(200), counter("n"))).rejects.toThrow("无法读取项目文件，文件可能已损坏。");
+  });
+
+  it("rejects other ZIP archives", async () => {
+    const file = await createZip([{ name: "readme.txt", data: new Blob(["hi"]) }]);
+    await expect(readProjectFile(file, counter("n"))).rejects.toThrow("不是 SmartCollage 项目文件。");
+  });
+
+  it("rejects a project document that isn't JSON", async () => {
+    const file = await createZip([{ name: "project.json", data: new Blob(["{ not json"]) }]);
+    await expect(readProjectFile(file, counter("n"))).rejects.toThrow("项目文件中的设置不是有效的 JSON。");
+  });
+
+  it("rejects projects from a newer version", async () => {
+    const doc = { format: "smartcollage-project", version: 99, images: [] };
+    const file = await createZip([{ name: "project.json", data: new Blob([JSON.stringify(doc)]) }]);
+    await expect(readProjectFile(file, counter("n"))).rejects.toThrow("项目文件版本过新，请升级后再打开。");
+  });
+});
@@ -0,0 +1,177 @@
+import type { CollageImageItem, FocalPoint } from "./collage";
+import { createZip, readZip, type ZipEntry } from "./zip";
+
+// A portable project: one ZIP holding the original photos, a JSON document with everything the
+// page needs to rebuild the collage, and a small preview image.
+
+export const PROJECT_FILE_FORMAT = "smartcollage-project";
+export const PROJECT_FILE_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = "smartcollage";
+
+const DOCUMENT_NAME = "project.json";
+
+export type ProjectFileImage = {
+  id: string;
+  /** Path of the photo inside the archive. */
+  path: string;
+  filename: string;
+  type: string;
+  lastModified: number;
+  focalPoint?: FocalPoint;
+  zoom?: number;
+  weight?: number;
+};
+
+export type ProjectFileDocument<S = unknown> = {
+  format: typeof PROJECT_FILE_FORMAT;
+  version: number;
+  createdAt: string;
+  name: string;
+  mainId: string | null;
+  /** Photos in collage input order. */
+  images: ProjectFileImage[];
+  settings: S;
+  /** Path of the preview image, if one was saved. */
+  preview?: string;
+};
+
+function previewExtension(blob: Blob): string {
+  if (blob.type === "image/png") return "png";
+  if (blob.type === "image/webp") return "webp";
+  return "jpg";
+}
+
+/** Packs a project into a `.smartcollage` archive. Throws a user-facing error when it is too big for one. */
+export async function buildProjectFile<S>(args: {
+  name: string;
+  mainId: string | null;
+  images: CollageImageItem[];
+  settings: S;
+  preview?: Blob;
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}): Promise<Blob> {
+  const { name, mainId, images, settings, preview, signal, onProgress } = args;
+  const width = String(images.length).length;
+  const entries = images.map((item, idx) => ({
+    // Numbered so photos with the same filename don't collide and the archive lists in order.
+    name: `images/${String(idx + 1).padStart(width, "0")}-${item.file.name.replaceAll("/", "_")}`,
+    data: item.file as Blob,
+    lastModified: item.file.lastModified,
+  }));
+
+  const doc: ProjectFileDocument<S> = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    createdAt: new Date().toISOString(),
+    name,
+    mainId,
+    images: images.map((item, idx) => ({
+      id: item.id,
+      path: entries[idx].name,
+      filename: item.file.name,
+      type: item.file.type,
+      lastModified: item.file.lastModified,
+      focalPoint: item.focalPoint,
+      zoom: item.zoom,
+      weight: item.weight,
+    })),
+    settings,
+    preview: preview ? `preview.${previewExtension(preview)}` : undefined,
+  };
+
+  try {
+    return await createZip(
+      [
+        { name: DOCUMENT_NAME, data: new Blob([JSON.stringify(doc, null, 2)], { type: "application/json" }) },
+        ...(preview && doc.preview ? [{ name: doc.preview, data: preview }] : []),
+        ...entries,
+      ],
+      signal,
+      onProgress,
+    );
+  } catch (err) {
+    if (err instanceof RangeError) {
+      throw new Error("项目太大，超出了项目文件的上限（4 GB 或约 6.5 万张图片），请减少图片后再保存。");
+    }
+    throw err;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value != null && !Array.isArray(value);
+}
+
+/**
+ * Unpacks a `.smartcollage` archive. Photos get fresh ids (the main id is mapped along; `ids`
+ * maps the rest, e.g. ids inside settings), so opening the same file twice never clashes with a
+ * project already saved in this browser. Throws user-facing errors.
+ */
+export async function readProjectFile<S>(
+  file: Blob,
+  makeId: () => string,
+): Promise<{
+  name: string;
+  mainId: string | null;
+  images: CollageImageItem[];
+  settings: Partial<S>;
+  /** Saved image id → new image id. */
+  ids: Map<string, string>;
+  missing: number;
+}> {
+  let entries: ZipEntry[];
+  try {
+    entries = await readZip(file);
+  } catch {
+    throw new Error("无法读取项目文件，文件可能已损坏。");
+  }
+  const byName = new Map(entries.map((e) => [e.name, e]));
+  const docEntry = byName.get(DOCUMENT_NAME);
+  if (!docEntry) throw new Error("不是 SmartCollage 项目文件。");
+
+  let data: unknown;
+  try {
+    data = JSON.parse(await docEntry.data.text());
+  } catch {
+    throw new Error("项目文件中的设置不是有效的 JSON。");
+  }
+  if (!isObject(data) || data.format !== PROJECT_FILE_FORMAT) throw new Error("不是 SmartCollage 项目文件。");
+  if (typeof data.version !== "number" || data.version > PROJECT_FILE_VERSION) {
+    throw new Error("项目文件版本过新，请升级后再打开。");
+  }
+  if (
+    !Array.isArray(data.images) ||
+    !data.images.every((i) => isObject(i) && typeof i.id === "string" && typeof i.path === "string")
+  ) {
+    throw new Error("项目文件内容不完整。");
+  }
+  const doc = data as unknown as ProjectFileDocument<Partial<S>>;
+
+  const ids = new Map<string, string>();
+  const images: CollageImageItem[] = [];
+  for (const source of doc.images) {
+    const entry = byName.get(source.path);
+    if (!entry) continue;
+    const id = makeId();
+    ids.set(source.id, id);
+    images.push({
+      id,
+      file: new File([entry.data], source.filename || source.path.split("/").pop() || "image", {
+        type: source.type || entry.data.type,
+        lastModified: source.lastModified || entry.lastModified,
+      }),
+      focalPoint: source.focalPoint,
+      zoom: source.zoom,
+      weight: source.weight,
+    });
+  }
+
+  return {
+    name: typeof doc.name === "string" ? doc.name : "",
+    mainId: doc.mainId ? (ids.get(doc.mainId) ?? null) : null,
+    images,
+    settings: isObject(doc.settings) ? doc.settings : {},
+    ids,
+    missing: doc.images.length - images.length,
+  };
+}
@@ -0,0 +1,157 @@
+import type { CollageImageItem, FocalPoint } from "./collage";
+
+// Projects live in IndexedDB: one small record per project (settings, image order, per-image
+// edits) plus one record per image file, so saving a settings tweak never rewrites the photos.
+
+const DB_NAME = "smartcollage";
+const DB_VERSION = 1;
+const PROJECTS = "projects";
+const IMAGES = "images";
+
+export type ProjectImageRef = { id: string; focalPoint?: FocalPoint; zoom?: number; weight?: number };
+
+export type ProjectRecord<S = unknown> = {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  mainId: string | null;
+  /** Images in collage input order. */
+  images: ProjectImageRef[];
+  settings: S;
+};
+
+export type ProjectSummary = { id: string; name: string; updatedAt: number; imageCount: number };
+
+type ImageRecord = { id: string; projectId: string; file: File };
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException("Transaction aborted", "AbortError"));
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function supportsProjects(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(IMAGES)) {
+        db.createObjectStore(IMAGES, { keyPath: "id" }).createIndex("projectId", "projectId");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((err) => {
+    // Let a later call retry (e.g. after the user closes another tab blocking an upgrade).
+    dbPromise = null;
+    throw err;
+  });
+  return dbPromise;
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const db = await openDb();
+  const records = await requestResult(
+    db.transaction(PROJECTS).objectStore(PROJECTS).getAll() as IDBRequest<ProjectRecord[]>,
+  );
+  return records
+    .map((r) => ({ id: r.id, name: r.name, updatedAt: r.updatedAt, imageCount: r.images.length }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Writes the project record and brings its stored files in line with `images`: files not stored
+ * yet are added, files no longer used are deleted, unchanged ones are left alone.
+ */
+export async function saveProject<S>(
+  record: Omit<ProjectRecord<S>, "images" | "updatedAt">,
+  images: CollageImageItem[],
+): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, IMAGES], "readwrite");
+  const done = transactionDone(tx);
+  const imageStore = tx.objectStore(IMAGES);
+  const stored = new Set(
+    (await requestResult(imageStore.index("projectId").getAllKeys(record.id))).map((key) => String(key)),
+  );
+
+  const wanted = new Set(images.map((i) => i.id));
+  for (const id of stored) {
+    if (!wanted.has(id)) imageStore.delete(id);
+  }
+  for (const item of images) {
+    if (stored.has(item.id)) continue;
+    imageStore.put({ id: item.id, projectId: record.id, file: item.file } satisfies ImageRecord);
+  }
+  const full: ProjectRecord<S> = {
+    ...record,
+    updatedAt: Date.now(),
+    images: images.map(({ id, focalPoint, zoom, weight }) => ({ id, focalPoint, zoom, weight })),
+  };
+  tx.objectStore(PROJECTS).put(full);
+  await done;
+}
+
+export async function loadProject<S>(
+  id: string,
+): Promise<{ record: ProjectRecord<S>; images: CollageImageItem[] } | null> {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, IMAGES]);
+  const record = (await requestResult(tx.objectStore(PROJECTS).get(id))) as ProjectRecord<S> | undefined;
+  if (!record) return null;
+  const files = (await requestResult(tx.objectStore(IMAGES).index("projectId").getAll(id))) as ImageRecord[];
+  const byId = new Map(files.map((f) => [f.id, f.file]));
+  const images: CollageImageItem[] = [];
+  for (const ref of record.images) {
+    const file = byId.get(ref.id);
+    // A file lost to eviction or a half-finished write simply drops out of the project.
+    if (file) images.push({ id: ref.id, file, focalPoint: ref.focalPoint, zoom: ref.zoom, weight: ref.weight });
+  }
+  return { record, images };
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, IMAGES], "readwrite");
+  const done = transactionDone(tx);
+  const imageStore = tx.objectStore(IMAGES);
+  for (const key of await requestResult(imageStore.index("projectId").getAllKeys(id))) imageStore.delete(key);
+  tx.objectStore(PROJECTS).delete(id);
+  await done;
+}
+
+export type StorageUsage = { usage: number; quota: number; persisted: boolean };
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (typeof navigator === "undefined" || !navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+  return { usage, quota, persisted };
+}
+
+/** Asks the browser not to evict saved projects under storage pressure; harmless if refused. */
+export async function requestPersistentStorage(): Promise<boolean> {
+  if (typeof navigator === "undefined" || !navigator.storage?.persist) return false;
+  try {
+    return await navigator.storage.persist();
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,231 @@
+import { createBitmapCache } from "./bitmap-cache";
+import {
+  canvasToBlob,
+  renderCollageToCanvas,
+  type CollageImageItem,
+  type CollagePlan,
+  type CollageProgress,
+  type RenderCollageOptions,
+} from "./collage";
+import { clearMosaicColorCache } from "./mosaic";
+import { renderCollagePdf, type CollagePdfOptions } from "./pdf-export";
+import { clearFocalPointCache } from "./saliency";
+import { renderCollageTiledPng } from "./tiled-export";
+
+export type RenderJob = {
+  images: CollageImageItem[];
+  mainId: string;
+  options: RenderCollageOptions;
+  /** Memory budget of the decoded-bitmap cache on whichever thread renders. */
+  cacheBudgetBytes?: number;
+};
+
+/**
+ * "blob" encodes to `type`; "tiled-png" renders in strips into a streamed PNG (for sizes past
+ * the canvas limit); "pdf" builds a PDF document; "bitmap" hands back the pixels for on-screen
+ * previews.
+ */
+export type RenderWorkerOutput =
+  | { kind: "blob"; type: string; quality?: number }
+  | { kind: "tiled-png" }
+  | { kind: "pdf"; pdf: CollagePdfOptions }
+  | { kind: "bitmap" };
+
+export type RenderWorkerRequest =
+  | { type: "render"; id: number; job: RenderJob; output: RenderWorkerOutput }
+  | { type: "abort"; id: number }
+  | { type: "clear-cache"; ids?: string[] };
+
+export type RenderWorkerResponse =
+  | { type: "progress"; id: number; progress: CollageProgress }
+  | { type: "blob"; id: number; blob: Blob }
+  | { type: "bitmap"; id: number; bitmap: ImageBitmap; plan: CollagePlan }
+  | { type: "error"; id: number; name: string; message: string };
+
+type RenderedBitmap = { bitmap: ImageBitmap; plan: CollagePlan };
+
+type PendingJob = {
+  resolve: (value: Blob | RenderedBitmap) => void;
+  reject: (reason: unknown) => void;
+  onProgress?: (progress: CollageProgress) => void;
+};
+
+// Used by the main-thread fallback; the worker keeps its own.
+const localCache = createBitmapCache();
+
+let worker: Worker | null = null;
+let workerBroken = false;
+let nextJobId = 1;
+const pending = new Map<number, PendingJob>();
+
+function abortError(): DOMException {
+  return new DOMException("Aborted", "AbortError");
+}
+
+export function supportsWorkerRendering(): boolean {
+  if (workerBroken) return false;
+  if (typeof Worker === "undefined" || typeof OffscreenCanvas === "undefined") return false;
+  try {
+    const probe = new OffscreenCanvas(1, 1);
+    return typeof probe.convertToBlob === "function" && probe.getContext("2d") != null;
+  } catch {
+    return false;
+  }
+}
+
+function getWorker(): Worker {
+  if (worker) return worker;
+  const w = new Worker(new URL("./render.worker.ts", import.meta.url), { type: "module" });
+  w.addEventListener("message", (event: MessageEvent<RenderWorkerResponse>) => {
+    const msg = event.data;
+    const job = pending.get(msg.id);
+    if (!job) return;
+    if (msg.type === "progress") {
+      job.onProgress?.(msg.progress);
+      return;
+    }
+    pending.delete(msg.id);
+    if (msg.type === "blob") job.resolve(msg.blob);
+    else if (msg.type === "bitmap") job.resolve({ bitmap: msg.bitmap, plan: msg.plan });
+    else if (msg.name === "AbortError") job.reject(abortError());
+    else job.reject(new Error(msg.message));
+  });
+  // A worker that fails to load or crashes takes every job with it; later renders use the
+  // main-thread path instead.
+  w.addEventListener("error", (event) => {
+    event.preventDefault();
+    workerBroken = true;
+    worker = null;
+    w.terminate();
+    for (const job of pending.values()) job.reject(new Error(event.message || "Render worker failed."));
+    pending.clear();
+  });
+  worker = w;
+  return w;
+}
+
+function runInWorker(
+  job: RenderJob,
+  output: RenderWorkerOutput,
+  signal?: AbortSignal,
+  onProgress?: (progress: CollageProgress) => void,
+): Promise<Blob | RenderedBitmap> {
+  if (signal?.aborted) return Promise.reject(abortError());
+  const w = getWorker();
+  const id = nextJobId++;
+
+  return new Promise<Blob | RenderedBitmap>((resolve, reject) => {
+    const onAbort = () => w.postMessage({ type: "abort", id } satisfies RenderWorkerRequest);
+    const cleanup = () => signal?.removeEventListener("abort", onAbort);
+    pending.set(id, {
+      resolve: (value) => {
+        cleanup();
+        resolve(value);
+      },
+      reject: (reason) => {
+        cleanup();
+        reject(reason);
+      },
+      onProgress,
+    });
+    signal?.addEventListener("abort", onAbort, { once: true });
+    // Only plain fields cross the boundary (Files are structured-cloneable; UI extras are not needed).
+    const images = job.images.map(
+      ({ id: imageId, file, focalPoint, zoom, width, height, weight, colors, metadata }) => ({
+        id: imageId,
+        file,
+        focalPoint,
+        zoom,
+        width,
+        height,
+        weight,
+        colors,
+        metadata,
+      }),
+    );
+    w.postMessage({ type: "render", id, job: { ...job, images }, output } satisfies RenderWorkerRequest);
+  });
+}
+
+/** Drops cached bitmaps, focal points and mosaic tile colors (for `ids`, or everything) on both threads. */
+export function clearRenderCaches(ids?: string[]): void {
+  localCache.clear(ids);
+  clearFocalPointCache(ids);
+  clearMosaicColorCache(ids);
+  worker?.postMessage({ type: "clear-cache", ids } satisfies RenderWorkerRequest);
+}
+
+function renderLocally(
+  canvas: HTMLCanvasElement,
+  job: RenderJob,
+  signal?: AbortSignal,
+  onProgress?: (progress: CollageProgress) => void,
+): Promise<CollagePlan> {
+  if (job.cacheBudgetBytes != null) localCache.setBudget(job.cacheBudgetBytes);
+  return renderCollageToCanvas({ canvas, ...job, cache: localCache, signal, onProgress });
+}
+
+/**
+ * Renders off the main thread when possible and returns the encoded file. `pdf` builds a PDF and
+ * `tiled` streams a PNG strip by strip instead of using one canvas; `type` and `quality` only
+ * apply to plain single-canvas exports.
+ */
+export async function renderCollageToBlob(args: RenderJob & {
+  type: string;
+  quality?: number;
+  tiled?: boolean;
+  pdf?: CollagePdfOptions;
+  signal?: AbortSignal;
+  onProgress?: (progress: CollageProgress) => void;
+}): Promise<Blob> {
+  const { images, mainId, options, cacheBudgetBytes, type, quality, tiled, pdf, signal, onProgress } = args;
+  const job: RenderJob = { images, mainId, options, cacheBudgetBytes };
+  if (supportsWorkerRendering()) {
+    const output: RenderWorkerOutput = pdf
+      ? { kind: "pdf", pdf }
+      : tiled
+        ? { kind: "tiled-png" }
+        : { kind: "blob", type, quality };
+    const result = await runInWorker(job, output, signal, onProgress);
+    return result as Blob;
+  }
+
+  if (pdf || tiled) {
+    if (cacheBudgetBytes != null) localCache.setBudget(cacheBudgetBytes);
+    const strips = { images, mainId, options, cache: localCache, signal, onProgress };
+    return pdf ? renderCollagePdf({ ...strips, pdf }) : renderCollageTiledPng(strips);
+  }
+
+  const canvas = document.createElement("canvas");
+  await renderLocally(canvas, job, signal, onProgress);
+  onProgress?.({ phase: "export", done: 0, total: 1, message: "导出文件…" });
+  return canvasToBlob(canvas, type, quality);
+}
+
+/**
+ * Renders off the main thread when possible and paints the result into `canvas`. Returns the plan
+ * that was drawn: the one to hit-test the canvas against.
+ */
+export async function renderCollagePreview(args: RenderJob & {
+  canvas: HTMLCanvasElement;
+  signal?: AbortSignal;
+  onProgress?: (progress: CollageProgress) => void;
+}): Promise<CollagePlan> {
+  const { canvas, images, mainId, options, cacheBudgetBytes, signal, onProgress } = args;
+  const job: RenderJob = { images, mainId, options, cacheBudgetBytes };
+  if (!supportsWorkerRendering()) return renderLocally(canvas, job, signal, onProgress);
+
+  const { bitmap, plan } = (await runInWorker(job, { kind: "bitmap" }, signal, onProgress)) as RenderedBitmap;
+  try {
+    if (signal?.aborted) throw abortError();
+    // Same context settings as `drawCollagePlaceholder`, which draws into this canvas too.
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas 2D context is not available.");
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    ctx.drawImage(bitmap, 0, 0);
+  } finally {
+    bitmap.close();
+  }
+  return plan;
+}
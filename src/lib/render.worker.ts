@@ -0,0 +1,86 @@
+import { createBitmapCache } from "./bitmap-cache";
+import { renderCollageToCanvas, type CollageProgress } from "./collage";
+import { clearMosaicColorCache } from "./mosaic";
+import { renderCollagePdf } from "./pdf-export";
+import type { RenderWorkerRequest, RenderWorkerResponse } from "./render";
+import { clearFocalPointCache } from "./saliency";
+import { renderCollageTiledPng } from "./tiled-export";
+
+// The project compiles against the DOM lib, so describe just the worker scope we use.
+type WorkerScope = {
+  postMessage(message: RenderWorkerResponse, transfer?: Transferable[]): void;
+  addEventListener(type: "message", listener: (event: MessageEvent<RenderWorkerRequest>) => void): void;
+};
+
+const scope = self as unknown as WorkerScope;
+const controllers = new Map<number, AbortController>();
+// Lives as long as the worker, so repeated previews reuse decoded bitmaps.
+const cache = createBitmapCache();
+
+async function handleRender(request: Extract<RenderWorkerRequest, { type: "render" }>): Promise<void> {
+  const { id, job, output } = request;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  if (job.cacheBudgetBytes != null) cache.setBudget(job.cacheBudgetBytes);
+  const onProgress = (progress: CollageProgress) => scope.postMessage({ type: "progress", id, progress });
+  try {
+    if (output.kind === "tiled-png" || output.kind === "pdf") {
+      const strips = { ...job, cache, signal: controller.signal, onProgress };
+      const blob =
+        output.kind === "pdf"
+          ? await renderCollagePdf({ ...strips, pdf: output.pdf })
+          : await renderCollageTiledPng(strips);
+      scope.postMessage({ type: "blob", id, blob });
+      return;
+    }
+
+    const canvas = new OffscreenCanvas(1, 1);
+    const plan = await renderCollageToCanvas({
+      canvas,
+      images: job.images,
+      mainId: job.mainId,
+      options: job.options,
+      cache,
+      signal: controller.signal,
+      onProgress,
+    });
+    if (controller.signal.aborted) throw new DOMException("Aborted", "AbortError");
+
+    if (output.kind === "bitmap") {
+      const bitmap = canvas.transferToImageBitmap();
+      scope.postMessage({ type: "bitmap", id, bitmap, plan }, [bitmap]);
+      return;
+    }
+    scope.postMessage({
+      type: "progress",
+      id,
+      progress: { phase: "export", done: 0, total: 1, message: "导出文件…" },
+    });
+    const blob = await canvas.convertToBlob({ type: output.type, quality: output.quality });
+    scope.postMessage({ type: "blob", id, blob });
+  } catch (err) {
+    scope.postMessage({
+      type: "error",
+      id,
+      name: err instanceof Error || err instanceof DOMException ? err.name : "Error",
+      message: err instanceof Error ? err.message : "渲染失败",
+    });
+  } finally {
+    controllers.delete(id);
+  }
+}
+
+scope.addEventListener("message", (event) => {
+  const request = event.data;
+  if (request.type === "abort") {
+    controllers.get(request.id)?.abort();
+    return;
+  }
+  if (request.type === "clear-cache") {
+    cache.clear(request.ids);
+    clearFocalPointCache(request.ids);
+    clearMosaicColorCache(request.ids);
+    return;
+  }
+  void handleRender(request);
+});
@@ -0,0 +1,118 @@
+import type { CollageContext2D, FocalPoint } from "./collage";
+
+// Longest side of the analysis copy. Large enough to find a face or subject, small enough
+// that hundreds of images cost only a few milliseconds each.
+const ANALYSIS_SIZE = 64;
+
+const CENTER: FocalPoint = { x: 0.5, y: 0.5 };
+
+const focalPointCache = new Map<string, FocalPoint>();
+
+let analysisCtx: CollageContext2D | null = null;
+
+function getAnalysisContext(): CollageContext2D | null {
+  if (analysisCtx) return analysisCtx;
+  if (typeof OffscreenCanvas !== "undefined") {
+    analysisCtx = new OffscreenCanvas(ANALYSIS_SIZE, ANALYSIS_SIZE).getContext("2d", {
+      willReadFrequently: true,
+    });
+  } else if (typeof document !== "undefined") {
+    analysisCtx = document
+      .createElement("canvas")
+      .getContext("2d", { willReadFrequently: true });
+  }
+  return analysisCtx;
+}
+
+/**
+ * Edge-energy saliency: Sobel gradient magnitude on a downscaled grayscale copy, weighted by a
+ * soft center prior, reduced to its energy-weighted centroid. Returns a normalized point
+ * ({x, y} in [0, 1]) that the cover crop should keep in view.
+ */
+export function computeFocalPoint(source: CanvasImageSource, sourceW: number, sourceH: number): FocalPoint {
+  if (sourceW <= 0 || sourceH <= 0) return CENTER;
+  const ctx = getAnalysisContext();
+  if (!ctx) return CENTER;
+
+  const scale = ANALYSIS_SIZE / Math.max(sourceW, sourceH);
+  const w = Math.max(3, Math.round(sourceW * scale));
+  const h = Math.max(3, Math.round(sourceH * scale));
+  ctx.canvas.width = w;
+  ctx.canvas.height = h;
+  ctx.drawImage(source, 0, 0, w, h);
+
+  let data: Uint8ClampedArray;
+  try {
+    data = ctx.getImageData(0, 0, w, h).data;
+  } catch {
+    // Tainted or unreadable source: nothing to analyze.
+    return CENTER;
+  }
+
+  const gray = new Float32Array(w * h);
+  for (let i = 0, p = 0; i < gray.length; i++, p += 4) {
+    gray[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+  }
+
+  const energy = new Float32Array(w * h);
+  let sum = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      const gx =
+        gray[i - w + 1] + 2 * gray[i + 1] + gray[i + w + 1] - gray[i - w - 1] - 2 * gray[i - 1] - gray[i + w - 1];
+      const gy =
+        gray[i + w - 1] + 2 * gray[i + w] + gray[i + w + 1] - gray[i - w - 1] - 2 * gray[i - w] - gray[i - w + 1];
+      const e = Math.sqrt(gx * gx + gy * gy);
+      energy[i] = e;
+      sum += e;
+    }
+  }
+
+  const interior = (w - 2) * (h - 2);
+  const mean = interior > 0 ? sum / interior : 0;
+  if (mean <= 0) return CENTER;
+
+  // Only above-average edges count, squared so the strongest structure dominates flat texture.
+  let total = 0;
+  let cx = 0;
+  let cy = 0;
+  for (let y = 1; y < h - 1; y++) {
+    const ny = (y + 0.5) / h - 0.5;
+    for (let x = 1; x < w - 1; x++) {
+      const excess = energy[y * w + x] - mean;
+      if (excess <= 0) continue;
+      const nx = (x + 0.5) / w - 0.5;
+      const prior = Math.exp(-(nx * nx + ny * ny) / 0.18);
+      const weight = excess * excess * prior;
+      total += weight;
+      cx += weight * (x + 0.5);
+      cy += weight * (y + 0.5);
+    }
+  }
+  if (total <= 0) return CENTER;
+
+  return { x: Math.min(1, Math.max(0, cx / total / w)), y: Math.min(1, Math.max(0, cy / total / h)) };
+}
+
+/** Cached per image id so repeated previews don't pay for the analysis again. */
+export function getFocalPoint(
+  id: string,
+  source: CanvasImageSource,
+  sourceW: number,
+  sourceH: number,
+): FocalPoint {
+  const cached = focalPointCache.get(id);
+  if (cached) return cached;
+  const point = computeFocalPoint(source, sourceW, sourceH);
+  focalPointCache.set(id, point);
+  return point;
+}
+
+export function clearFocalPointCache(ids?: Iterable<string>): void {
+  if (!ids) {
+    focalPointCache.clear();
+    return;
+  }
+  for (const id of ids) focalPointCache.delete(id);
+}
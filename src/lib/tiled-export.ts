@@ -0,0 +1,125 @@
+import type { BitmapCache } from "./bitmap-cache";
+import {
+  planCollage,
+  renderCollageToCanvas,
+  resolveImageSizes,
+  type CollageCanvas,
+  type CollageContext2D,
+  type CollageImageItem,
+  type CollagePlan,
+  type CollageProgress,
+  type RenderCollageOptions,
+} from "./collage";
+import { createPngStreamEncoder } from "./png";
+
+/** Longest side a single canvas is trusted with; bigger exports go through strips. */
+export const SINGLE_CANVAS_LIMIT = 8192;
+export const MAX_TILED_EXPORT_SIZE = 20000;
+
+// Pixels per strip. Safari caps canvases at ~16.7 MP, so stay under that everywhere.
+const STRIP_PIXELS = 16_000_000;
+
+export type CollageStrip = { canvas: CollageCanvas; y: number; rows: number; index: number; count: number };
+
+/** A canvas usable on either thread: OffscreenCanvas where available. */
+export function createScratchCanvas(): CollageCanvas {
+  if (typeof OffscreenCanvas !== "undefined") return new OffscreenCanvas(1, 1);
+  return document.createElement("canvas");
+}
+
+/** Measures what the layout needs and plans the collage once, for every strip to share. */
+export async function planCollageForStrips(args: {
+  images: CollageImageItem[];
+  mainId: string;
+  options: RenderCollageOptions;
+  signal?: AbortSignal;
+  onProgress?: (progress: CollageProgress) => void;
+}): Promise<{ images: CollageImageItem[]; plan: CollagePlan }> {
+  const { mainId, options, signal, onProgress } = args;
+  if (args.images.length === 0) throw new Error("No images provided.");
+  const images = await resolveImageSizes({ images: args.images, mainId, options, signal, onProgress });
+  return { images, plan: planCollage({ images, mainId, options }) };
+}
+
+/**
+ * Renders `plan` in full-width horizontal strips, each drawn from the shared layout offset by its
+ * y position, into one reused canvas; `consume` gets each strip before the next is drawn.
+ */
+export async function renderCollageStrips(args: {
+  images: CollageImageItem[];
+  mainId: string;
+  options: RenderCollageOptions;
+  plan: CollagePlan;
+  cache?: BitmapCache;
+  signal?: AbortSignal;
+  onProgress?: (progress: CollageProgress) => void;
+  consume: (strip: CollageStrip) => Promise<void>;
+}): Promise<void> {
+  const { images, mainId, options, plan, cache, signal, onProgress, consume } = args;
+  const { width, height } = plan;
+  const stripHeight = Math.max(1, Math.min(height, Math.floor(STRIP_PIXELS / width)));
+  const count = Math.ceil(height / stripHeight);
+
+  const canvas = createScratchCanvas();
+  try {
+    for (let index = 0; index < count; index++) {
+      if (signal?.aborted) throw new DOMException("Aborted", "AbortError");
+      const y = index * stripHeight;
+      const rows = Math.min(stripHeight, height - y);
+      await renderCollageToCanvas({
+        canvas,
+        images,
+        mainId,
+        options,
+        plan,
+        viewport: { x: 0, y, width, height: rows },
+        cache,
+        signal,
+        onProgress: (progress) =>
+          onProgress?.({ ...progress, message: `分块 ${index + 1}/${count}：${progress.message ?? "处理中…"}` }),
+      });
+      await consume({ canvas, y, rows, index, count });
+    }
+  } finally {
+    // Let the browser reclaim the strip's backing store right away.
+    canvas.width = 1;
+    canvas.height = 1;
+  }
+}
+
+/** Renders the collage in strips and streams them into one PNG; no canvas holds the whole image. */
+export async function renderCollageTiledPng(args: {
+  images: CollageImageItem[];
+  mainId: string;
+  options: RenderCollageOptions;
+  cache?: BitmapCache;
+  signal?: AbortSignal;
+  onProgress?: (progress: CollageProgress) => void;
+}): Promise<Blob> {
+  const { mainId, options, cache, signal, onProgress } = args;
+  const { images, plan } = await planCollageForStrips(args);
+  const encoder = createPngStreamEncoder(plan.width, plan.height, options.transparent === true);
+  try {
+    await renderCollageStrips({
+      images,
+      mainId,
+      options,
+      plan,
+      cache,
+      signal,
+      onProgress,
+      consume: async ({ canvas, rows, index, count }) => {
+        onProgress?.({ phase: "export", done: index, total: count, message: `编码分块 ${index + 1}/${count}…` });
+        const ctx = canvas.getContext("2d") as CollageContext2D | null;
+        if (!ctx) throw new Error("Canvas 2D context is not available.");
+        await encoder.writeRows(ctx.getImageData(0, 0, plan.width, rows).data, rows);
+      },
+    });
+
+    onProgress?.({ phase: "export", done: 1, total: 1, message: "生成 PNG 文件…" });
+    return await encoder.finish();
+  } catch (err) {
+    encoder.abort();
+    throw err;
+  }
+}
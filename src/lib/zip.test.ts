@@ -0,0 +1,166 @@
+import { crc32 as zlibCrc32, deflateRawSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { createZip, readZip } from "./zip";
+
+const encoder = new TextEncoder();
+
+async function bytesOf(blob: Blob): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+// Central directory records of an archive, read straight from the bytes.
+function centralRecords(bytes: Uint8Array<ArrayBuffer>) {
+  const view = new DataView(bytes.buffer);
+  const eocd = bytes.length - 22;
+  expect(view.getUint32(eocd, true)).toBe(0x06054b50);
+  const count = view.getUint16(eocd + 10, true);
+  let pos = view.getUint32(eocd + 16, true);
+  const records = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(pos, true)).toBe(0x02014b50);
+    const nameLength = view.getUint16(pos + 28, true);
+    records.push({
+      pos,
+      method: view.getUint16(pos + 10, true),
+      crc: view.getUint32(pos + 16, true),
+      compressedSize: view.getUint32(pos + 20, true),
+      size: view.getUint32(pos + 24, true),
+      localOffset: view.getUint32(pos + 42, true),
+      name: new TextDecoder().decode(bytes.subarray(pos + 46, pos + 46 + nameLength)),
+    });
+    pos += 46 + nameLength;
+  }
+  return records;
+}
+
+// A one-entry archive with a deflated entry, as other zip tools write them.
+function deflatedZip(name: string, content: Uint8Array): Blob {
+  const nameBytes = encoder.encode(name);
+  const packed = deflateRawSync(content);
+  const crc = zlibCrc32(content);
+  const local = new Uint8Array(30 + nameBytes.length);
+  const lv = new DataView(local.buffer);
+  lv.setUint32(0, 0x04034b50, true);
+  lv.setUint16(4, 20, true);
+  lv.setUint16(8, 8, true);
+  lv.setUint16(12, 0x5021, true); // 2020-01-01
+  lv.setUint32(14, crc, true);
+  lv.setUint32(18, packed.length, true);
+  lv.setUint32(22, content.length, true);
+  lv.setUint16(26, nameBytes.length, true);
+  local.set(nameBytes, 30);
+  const central = new Uint8Array(46 + nameBytes.length);
+  const cv = new DataView(central.buffer);
+  cv.setUint32(0, 0x02014b50, true);
+  cv.setUint16(4, 20, true);
+  cv.setUint16(6, 20, true);
+  cv.setUint16(10, 8, true);
+  cv.setUint16(14, 0x5021, true);
+  cv.setUint32(16, crc, true);
+  cv.setUint32(20, packed.length, true);
+  cv.setUint32(24, content.length, true);
+  cv.setUint16(28, nameBytes.length, true);
+  central.set(nameBytes, 46);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, 1, true);
+  ev.setUint16(10, 1, true);
+  ev.setUint32(12, central.length, true);
+  ev.setUint32(16, local.length + packed.length, true);
+  return new Blob([local, new Uint8Array(packed), central, end]);
+}
+
+const ENTRIES = [
+  { name: "project.json", data: new Blob(['{"hello":"world"}']), lastModified: new Date(2024, 4, 6, 7, 8, 10).getTime() },
+  { name: "images/01-照片.jpg", data: new Blob([new Uint8Array(5000).map((_, i) => i * 7)]) },
+  { name: "empty.txt", data: new Blob([]) },
+];
+
+describe("createZip / readZip", () => {
+  it("round-trips names, contents and timestamps", async () => {
+    const entries = await readZip(await createZip(ENTRIES));
+    expect(entries.map((e) => e.name)).toEqual(ENTRIES.map((e) => e.name));
+    for (let i = 0; i < ENTRIES.length; i++) {
+      expect(await bytesOf(entries[i].data)).toEqual(await bytesOf(ENTRIES[i].data));
+    }
+    expect(entries[0].lastModified).toBe(ENTRIES[0].lastModified);
+  });
+
+  it("records each entry's CRC-32 and size", async () => {
+    const archive = await bytesOf(await createZip(ENTRIES));
+    const view = new DataView(archive.buffer);
+    const records = centralRecords(archive);
+    expect(records.map((r) => r.name)).toEqual(ENTRIES.map((e) => e.name));
+    for (let i = 0; i < ENTRIES.length; i++) {
+      const content = await bytesOf(ENTRIES[i].data);
+      const { crc, size, compressedSize, method, localOffset } = records[i];
+      expect(method).toBe(0);
+      expect(crc).toBe(zlibCrc32(content));
+      expect(size).toBe(content.length);
+      expect(compressedSize).toBe(content.length);
+      // The local header repeats the same values.
+      expect(view.getUint32(localOffset, true)).toBe(0x04034b50);
+      expect(view.getUint32(localOffset + 14, true)).toBe(crc);
+      expect(view.getUint32(localOffset + 18, true)).toBe(size);
+    }
+  });
+
+  it("reports progress per entry", async () => {
+    const calls: [number, number][] = [];
+    await createZip(ENTRIES, undefined, (done, total) => calls.push([done, total]));
+    expect(calls).toEqual([
+      [0, 3],
+      [1, 3],
+      [2, 3],
+      [3, 3],
+    ]);
+  });
+
+  it("refuses entries beyond the 4 GB limit", async () => {
+    const huge = new Blob([]);
+    Object.defineProperty(huge, "size", { value: 2 ** 32 });
+    const result = createZip([{ name: "huge.bin", data: huge }]);
+    await expect(result).rejects.toThrow(RangeError);
+    await expect(result).rejects.toThrow("Archive exceeds the 4 GB ZIP limit.");
+  });
+
+  it("stops when aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(createZip(ENTRIES, controller.signal)).rejects.toMatchObject({ name: "AbortError" });
+  });
+
+  it("inflates deflated entries", async () => {
+    const text = encoder.encode("SmartCollage ".repeat(200));
+    const [entry] = await readZip(deflatedZip("notes.txt", text));
+    expect(entry.name).toBe("notes.txt");
+    expect(await bytesOf(entry.data)).toEqual(text);
+  });
+});
+
+describe("readZip on damaged input", () => {
+  it("rejects a file that isn't a ZIP", async () => {
+    await expect(readZip(new Blob(["just some text, no archive here"]))).rejects.toThrow("Not a ZIP archive.");
+    await expect(readZip(new Blob([]))).rejects.toThrow("Not a ZIP archive.");
+  });
+
+  it("rejects an archive cut off at the front", async () => {
+    const archive = await createZip(ENTRIES);
+    await expect(readZip(archive.slice(4000))).rejects.toThrow("Corrupt ZIP central directory.");
+  });
+
+  it("rejects an entry whose header lies outside the file", async () => {
+    const archive = await bytesOf(await createZip(ENTRIES));
+    const [first] = centralRecords(archive);
+    new DataView(archive.buffer).setUint32(first.pos + 42, archive.length + 100, true);
+    await expect(readZip(new Blob([archive]))).rejects.toThrow("Corrupt ZIP entry header.");
+  });
+
+  it("rejects an entry whose data runs past the end of the file", async () => {
+    const archive = await bytesOf(await createZip(ENTRIES));
+    const [, photo] = centralRecords(archive);
+    new DataView(archive.buffer).setUint32(photo.pos + 20, archive.length, true);
+    await expect(readZip(new Blob([archive]))).rejects.toThrow("Truncated ZIP entry.");
+  });
+});
@@ -0,0 +1,187 @@
+import { crc32 } from "./png";
+
+// Minimal ZIP reader / writer for project files. Entries are written uncompressed ("stored"):
+// photos are already compressed, and stored entries can be assembled from Blob slices without
+// holding the archive in memory. The reader also accepts deflated entries, so archives repacked
+// by other tools still open. No ZIP64, so archives stay under 4 GB.
+
+export type ZipEntryInput = { name: string; data: Blob; lastModified?: number };
+export type ZipEntry = { name: string; data: Blob; lastModified: number };
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const UTF8_FLAG = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+const ZIP32_LIMIT = 0xffffffff;
+
+async function blobCrc32(blob: Blob, signal?: AbortSignal): Promise<number> {
+  let crc = 0xffffffff;
+  const reader = blob.stream().getReader();
+  for (;;) {
+    if (signal?.aborted) {
+      await reader.cancel();
+      throw new DOMException("Aborted", "AbortError");
+    }
+    const { done, value } = await reader.read();
+    if (done) break;
+    crc = crc32(value, crc);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date/time, local time, 2-second resolution; clamped to the format's 1980 epoch.
+function dosDateTime(ms: number): { time: number; date: number } {
+  const d = new Date(Math.max(ms, new Date(1980, 0, 1).getTime()));
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1),
+    date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}
+
+function fromDosDateTime(time: number, date: number): number {
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0xf) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2,
+  ).getTime();
+}
+
+/**
+ * Builds a ZIP archive of `entries` as a Blob; file contents are referenced, not copied. Throws a
+ * RangeError when the archive would exceed the format's size or entry-count limits.
+ */
+export async function createZip(
+  entries: ZipEntryInput[],
+  signal?: AbortSignal,
+  onProgress?: (done: number, total: number) => void,
+): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const central: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+
+  for (let idx = 0; idx < entries.length; idx++) {
+    onProgress?.(idx, entries.length);
+    const entry = entries[idx];
+    const name = encoder.encode(entry.name);
+    const size = entry.data.size;
+    if (size >= ZIP32_LIMIT || offset + 30 + name.length + size >= ZIP32_LIMIT) {
+      throw new RangeError("Archive exceeds the 4 GB ZIP limit.");
+    }
+    const crc = await blobCrc32(entry.data, signal);
+    const { time, date } = dosDateTime(entry.lastModified ?? Date.now());
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, LOCAL_HEADER, true);
+    lv.setUint16(4, 20, true); // version needed: 2.0
+    lv.setUint16(6, UTF8_FLAG, true);
+    lv.setUint16(8, METHOD_STORED, true);
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, size, true);
+    lv.setUint32(22, size, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const header = new Uint8Array(46 + name.length);
+    const cv = new DataView(header.buffer);
+    cv.setUint32(0, CENTRAL_HEADER, true);
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, UTF8_FLAG, true);
+    cv.setUint16(10, METHOD_STORED, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, size, true);
+    cv.setUint32(24, size, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    header.set(name, 46);
+
+    parts.push(local, entry.data);
+    central.push(header);
+    offset += local.length + size;
+  }
+
+  const centralSize = central.reduce((sum, h) => sum + h.length, 0);
+  if (entries.length >= 0xffff || offset + centralSize >= ZIP32_LIMIT) {
+    throw new RangeError("Archive exceeds the ZIP entry or size limit.");
+  }
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+  onProgress?.(entries.length, entries.length);
+  return new Blob([...parts, ...central, end], { type: "application/zip" });
+}
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+/** Lists the files in a ZIP archive. Stored entries are slices of `file`; deflated ones are inflated. */
+export async function readZip(file: Blob): Promise<ZipEntry[]> {
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB.
+  const tailStart = Math.max(0, file.size - 22 - 0xffff);
+  const tail = await readBytes(file, tailStart, file.size);
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Not a ZIP archive.");
+  const count = tail.getUint16(eocd + 10, true);
+  const centralSize = tail.getUint32(eocd + 12, true);
+  const centralOffset = tail.getUint32(eocd + 16, true);
+  if (count === 0xffff || centralOffset === ZIP32_LIMIT) throw new Error("ZIP64 archives are not supported.");
+
+  const dir = await readBytes(file, centralOffset, centralOffset + centralSize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let pos = 0;
+  for (let idx = 0; idx < count; idx++) {
+    if (pos + 46 > dir.byteLength || dir.getUint32(pos, true) !== CENTRAL_HEADER) {
+      throw new Error("Corrupt ZIP central directory.");
+    }
+    const method = dir.getUint16(pos + 10, true);
+    const time = dir.getUint16(pos + 12, true);
+    const date = dir.getUint16(pos + 14, true);
+    const compressedSize = dir.getUint32(pos + 20, true);
+    const nameLength = dir.getUint16(pos + 28, true);
+    const extraLength = dir.getUint16(pos + 30, true);
+    const commentLength = dir.getUint16(pos + 32, true);
+    const localOffset = dir.getUint32(pos + 42, true);
+    const name = decoder.decode(new Uint8Array(dir.buffer, dir.byteOffset + pos + 46, nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+    if (name.endsWith("/")) continue;
+
+    const local = await readBytes(file, localOffset, localOffset + 30);
+    if (local.byteLength < 30 || local.getUint32(0, true) !== LOCAL_HEADER) {
+      throw new Error("Corrupt ZIP entry header.");
+    }
+    const start = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    if (start + compressedSize > file.size) throw new Error("Truncated ZIP entry.");
+    const raw = file.slice(start, start + compressedSize);
+
+    let data: Blob;
+    if (method === METHOD_STORED) data = raw;
+    else if (method === METHOD_DEFLATED) {
+      data = await new Response(raw.stream().pipeThrough(new DecompressionStream("deflate-raw"))).blob();
+    } else throw new Error(`Unsupported ZIP compression method ${method}.`);
+    entries.push({ name, data, lastModified: fromDosDateTime(time, date) });
+  }
+  return entries;
+}